@@ -0,0 +1,252 @@
+import { Context, Time, h } from 'koishi'
+import { fileURLToPath } from "url"
+import { resolve } from 'path'
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import type { Bottle, Comment, DriftBottle } from './service'
+import { mediaElements } from './media'
+import { plainText } from './search'
+
+/** 当前导出的存档版本，格式不兼容时递增 */
+export const archiveVersion = 1
+
+export interface ArchiveMedia {
+  /** 瓶子和评论内容中引用该文件的链接 */
+  src: string;
+  mime: string;
+  /** base64 编码的文件内容 */
+  data: string;
+}
+
+export interface Archive {
+  format: 're-driftbottle';
+  version: number;
+  time: string;
+  bottles: (Bottle & { tags?: string[] })[];
+  comments: Comment[];
+  /** 储存在本地的静态资源，其他储存方式的链接原样保留 */
+  media: ArchiveMedia[];
+}
+
+export type ImportMode = 'merge' | 'replace'
+
+export interface ImportResult {
+  bottles: number;
+  comments: number;
+  media: number;
+  /** 导入失败的瓶子在存档中的编号 */
+  failed: number[];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null
+}
+
+export class Archiver {
+  constructor(private ctx: Context, private driftbottle: DriftBottle) {}
+
+  /** 导出所有瓶子、评论、标签和本地静态资源，返回存档的路径 */
+  async export() {
+    const logger = this.ctx.logger("re-driftbottle")
+    const bottles = await this.ctx.database.get("bottle", {})
+    const comments = await this.ctx.database.get("comment", {})
+    const tags = await this.ctx.database.get("bottle_tag", {})
+    const media: ArchiveMedia[] = []
+    const seen = new Set<string>()
+    for (const { content } of [...bottles, ...comments]) {
+      for (const element of h.parse(content)) {
+        const src: string = element.attrs.src
+        if (!mediaElements.includes(element.type) || !src?.startsWith("file:") || seen.has(src)) continue
+        seen.add(src)
+        try {
+          const { buffer, mime } = await this.driftbottle.media.load(src)
+          media.push({ src, mime, data: buffer.toString("base64") })
+        } catch (e) {
+          logger.warn(`静态资源 ${src} 读取失败，导出的存档中将不包含该文件：${e.message}`)
+        }
+      }
+    }
+
+    const archive: Archive = {
+      format: "re-driftbottle",
+      version: archiveVersion,
+      time: new Date().toISOString(),
+      bottles: bottles.map((bottle) => ({ ...bottle, tags: tags.filter((row) => row.bid === bottle.id).map((row) => row.tag) })),
+      comments,
+      media,
+    }
+    const dir = resolve(this.ctx.baseDir, "data/re-driftbottle")
+    mkdirSync(dir, { recursive: true })
+    const path = resolve(dir, `driftbottle-${archive.time.replace(/[:.]/g, "-")}.json`)
+    writeFileSync(path, JSON.stringify(archive))
+    return { path, bottles: bottles.length, comments: comments.length, media: media.length }
+  }
+
+  /**
+   * 导入存档，瓶子会分配新的编号。mode 为 replace 时先删除现有的所有瓶子
+   *
+   * 除了本插件导出的存档，也可以导入原版 koishi-plugin-driftbottle 的 bottle 和 comment 表的数据，
+   * 格式为 { "bottle": [...], "comment": [...] }
+   */
+  async import(path: string, mode: ImportMode = "merge"): Promise<ImportResult> {
+    const logger = this.ctx.logger("re-driftbottle")
+    const archive = this.parse(JSON.parse(readFileSync(path, "utf8")))
+    if (mode === "replace") {
+      for (const { id } of await this.ctx.database.get("bottle", {}, ["id"])) {
+        await this.driftbottle.remove(id)
+      }
+    }
+
+    const media = new Map(archive.media.map((item) => [item.src, item]))
+    const result: ImportResult = { bottles: 0, comments: 0, media: 0, failed: [] }
+    const rewrite = async (content: string) => {
+      const elements = h.parse(content)
+      for (const element of elements) {
+        const src: string = element.attrs.src
+        if (!mediaElements.includes(element.type) || !src) continue
+        let file: { buffer: Buffer, mime: string }
+        if (media.has(src)) {
+          file = { buffer: Buffer.from(media.get(src).data, "base64"), mime: media.get(src).mime }
+        } else if (src.startsWith("file:") && existsSync(fileURLToPath(src))) {
+          file = await this.driftbottle.media.load(src)
+        } else {
+          continue
+        }
+        element.attrs.src = await this.store(file.buffer, file.mime)
+        result.media++
+      }
+      return elements.join("")
+    }
+
+    const imported: number[] = []
+    for (const bottle of archive.bottles) {
+      let id: number
+      try {
+        const created = await this.ctx.database.create("bottle", {
+          name: bottle.name ?? "",
+          platform: bottle.platform ?? "",
+          uid: bottle.uid,
+          gid: bottle.gid,
+          cnid: bottle.cnid,
+          username: bottle.username,
+          content: await rewrite(bottle.content),
+          isHot: bottle.isHot ?? 0,
+          commentCount: 0,
+          likeCount: 0,
+          pickCount: 0,
+          score: 0,
+          status: bottle.status ?? "approved",
+          hidden: bottle.hidden ?? 0,
+          sunk: bottle.sunk ?? 0,
+          time: bottle.time,
+        })
+        id = created.id
+        const tags = bottle.tags ?? []
+        if (tags.length > 0) await this.ctx.database.upsert("bottle_tag", tags.map((tag) => ({ bid: id, tag })))
+        await this.driftbottle.searchIndex.update(id, 0, created.name + "\n" + plainText(created.content))
+
+        let count = 0
+        for (const comment of archive.comments.filter((comment) => comment.bid === bottle.id)) {
+          const content = await rewrite(comment.content)
+          await this.ctx.database.create("comment", {
+            cid: comment.cid,
+            bid: id,
+            parentCid: comment.parentCid ?? 0,
+            platform: comment.platform ?? "",
+            uid: comment.uid,
+            gid: comment.gid,
+            cnid: comment.cnid,
+            username: comment.username,
+            content,
+            status: comment.status ?? "approved",
+            hidden: comment.hidden ?? 0,
+            deleted: comment.deleted ?? 0,
+            time: comment.time,
+          })
+          if (!comment.deleted) await this.driftbottle.searchIndex.update(id, comment.cid, plainText(content))
+          count++
+        }
+        imported.push(id)
+        result.bottles++
+        result.comments += count
+      } catch (e) {
+        result.failed.push(bottle.id)
+        logger.warn(`存档中id为${bottle.id}的漂流瓶导入失败：${this.driftbottle.config.debugMode ? e.stack : e.name + ": " + e.message}`)
+        if (id) await this.driftbottle.remove(id).catch(() => {})
+      }
+    }
+    await this.driftbottle.recount({ ids: imported })
+    return result
+  }
+
+  /** 校验存档格式，并把原版插件的数据转换为当前的存档格式 */
+  private parse(data: unknown): Archive {
+    if (!isObject(data)) throw new Error("无法识别的存档格式")
+    if (data.format === "re-driftbottle") {
+      if (typeof data.version !== "number" || data.version > archiveVersion) throw new Error(`不支持的存档版本：${data.version}`)
+      if (!Array.isArray(data.bottles) || !Array.isArray(data.comments) || !Array.isArray(data.media)) throw new Error("存档内容不完整")
+      return data as unknown as Archive
+    }
+    if (!Array.isArray(data.bottle)) throw new Error("无法识别的存档格式")
+
+    // 原版只记录了作者和内容，回复以“回复 N. 用户名：”前缀的形式保存在评论内容中
+    const today = Time.getDateNumber()
+    const text = (value: unknown) => value === undefined || value === null ? "" : String(value)
+    const day = (value: unknown) => typeof value === "number" ? value : today
+    return {
+      format: "re-driftbottle",
+      version: 0,
+      time: new Date().toISOString(),
+      bottles: data.bottle.filter(isObject).map((row) => ({
+        id: Number(row.id),
+        name: text(row.name),
+        platform: "",
+        uid: text(row.uid),
+        gid: text(row.gid),
+        cnid: text(row.cnid),
+        username: text(row.username),
+        content: text(row.content),
+        isHot: 0,
+        commentCount: 0,
+        likeCount: 0,
+        pickCount: 0,
+        score: 0,
+        status: "approved",
+        hidden: 0,
+        sunk: 0,
+        time: day(row.time),
+      })),
+      comments: (Array.isArray(data.comment) ? data.comment : []).filter(isObject).map((row) => {
+        let content = text(row.content)
+        let parentCid = 0
+        const reply = content.match(/^回复 (\d+)\. [\s\S]*?：(“[\s\S]*”)$/)
+        if (reply) [parentCid, content] = [+reply[1], reply[2]]
+        if (!content.startsWith("“")) content = "“" + content + "”"
+        return {
+          id: 0,
+          cid: Number(row.cid),
+          bid: Number(row.bid),
+          parentCid,
+          platform: "",
+          uid: text(row.uid),
+          gid: text(row.gid),
+          cnid: text(row.cnid),
+          username: text(row.username),
+          content,
+          status: "approved",
+          hidden: 0,
+          deleted: 0,
+          likeCount: 0,
+          time: day(row.time),
+        }
+      }),
+      media: [],
+    }
+  }
+
+  /** 按当前的储存方式保存导入的静态资源，储存方式为 url 时保存为本地文件 */
+  private async store(buffer: Buffer, mime: string) {
+    const mode = this.driftbottle.config.saveMode
+    if (mode === "base64") return `data:${mime};base64,${buffer.toString("base64")}`
+    return await this.driftbottle.media.save(buffer, mime, mode === "url" ? "file" : mode)
+  }
+}
@@ -0,0 +1,55 @@
+import { Context, HTTP } from 'koishi'
+import type { Config } from '.'
+import { DriftBottleError } from './service'
+
+export type Verdict = 'retry' | 'abort'
+
+export class Delivery {
+  constructor(private ctx: Context, private config: Config) {}
+
+  /**
+   * 判断错误是否值得重试：插件自身的错误和 4xx 响应（408、429 除外）重试也不会成功，
+   * 其余错误（网络错误、超时、5xx、适配器的未知错误）视为暂时性错误
+   */
+  classify(e: unknown): Verdict {
+    if (e instanceof DriftBottleError) return 'abort'
+    if (HTTP.Error.is(e)) {
+      const status = e.response?.status
+      if (status >= 400 && status < 500 && status !== 408 && status !== 429) return 'abort'
+    }
+    return 'retry'
+  }
+
+  /** 第 retry 次重试前等待的毫秒数 */
+  delay(retry: number) {
+    return Math.min(this.config.retryInterval * this.config.retryBackoff ** (retry - 1), this.config.maxRetryInterval)
+  }
+
+  /**
+   * 执行 task，失败时按错误类型决定是否重试，最多重试 maxRetry 次，
+   * 放弃时抛出最后一次的错误；label 在每次失败后求值，可以包含 task 中抽到的瓶子编号
+   */
+  async run<T>(label: string | (() => string), task: (retry: number) => Promise<T>): Promise<T> {
+    const logger = this.ctx.logger("re-driftbottle")
+    for (let retry = 0; ; retry++) {
+      try {
+        return await task(retry)
+      } catch (e) {
+        const name = typeof label === "string" ? label : label()
+        const reason = this.config.debugMode ? e.stack : e.name + ": " + e.message
+        if (this.classify(e) === 'abort') {
+          // 插件自身的错误通常是用户输入不符合要求，不需要警告
+          logger[e instanceof DriftBottleError ? "debug" : "warn"](`${name}失败（不可重试的错误）：${reason}`)
+          throw e
+        }
+        if (retry >= this.config.maxRetry) {
+          logger.warn(`${name}失败（已重试${this.config.maxRetry}次）：${reason}`)
+          throw e
+        }
+        const delay = this.delay(retry + 1)
+        logger.warn(`${name}失败（已重试${retry}/${this.config.maxRetry}次，将在${delay}ms后重试）：${reason}`)
+        await this.ctx.sleep(delay)
+      }
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import { Context, Schema, h } from 'koishi'
+import { readFileSync } from 'fs'
+
+export type FilterAction = 'reject' | 'mask' | 'review'
+
+export interface FilterConfig {
+  filterWords: string[]
+  filterPatterns: string[]
+  filterFile?: string
+  filterAction: FilterAction
+}
+
+export const FilterConfig: Schema<FilterConfig> = Schema.object({
+  filterWords: Schema.array(Schema.string())
+    .default([])
+    .description("违禁词，一个项目填一个词"),
+  filterPatterns: Schema.array(Schema.string())
+    .default([])
+    .description("违禁内容正则表达式，一个项目填一个表达式（不区分大小写）"),
+  filterFile: Schema.path({
+    filters: ["file"],
+  })
+    .description("外部违禁词文件，每行一个词"),
+  filterAction: Schema.union([
+    Schema.const("reject").description("拒绝发送"),
+    Schema.const("mask").description("用 * 替换违禁内容"),
+    Schema.const("review").description("送入审核队列"),
+  ])
+    .default("reject")
+    .description("内容命中违禁规则时的处理方式"),
+})
+
+export function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+export class ContentFilter {
+  private rules: RegExp[] = []
+
+  constructor(private ctx: Context, private config: FilterConfig) {
+    this.reload()
+  }
+
+  /** 重新读取违禁词和正则表达式 */
+  reload() {
+    let words = [...this.config.filterWords]
+    if (this.config.filterFile) {
+      try {
+        words.push(...readFileSync(this.config.filterFile, "utf8").split(/\r?\n/))
+      } catch (e) {
+        this.ctx.logger("re-driftbottle").warn(`违禁词文件读取失败：${e.message}`)
+      }
+    }
+    this.rules = words
+      .map((word) => word.trim())
+      .filter(Boolean)
+      .map((word) => new RegExp(escapeRegExp(word), "gi"))
+    for (let pattern of this.config.filterPatterns) {
+      try {
+        this.rules.push(new RegExp(pattern, "gi"))
+      } catch (e) {
+        this.ctx.logger("re-driftbottle").warn(`违禁内容正则表达式 ${pattern} 无效：${e.message}`)
+      }
+    }
+  }
+
+  /** 纯文本是否命中违禁规则 */
+  test(text: string) {
+    return this.rules.some((rule) => {
+      rule.lastIndex = 0
+      return rule.test(text)
+    })
+  }
+
+  /** 用 * 替换纯文本中的违禁内容 */
+  mask(text: string) {
+    for (let rule of this.rules) {
+      text = text.replace(rule, (match) => "*".repeat(match.length))
+    }
+    return text
+  }
+
+  /** 检查消息元素中的文本部分，返回是否命中以及遮蔽后的内容 */
+  check(content: string) {
+    let hit = false
+    let masked = h.transform(content, {
+      text: (attrs) => {
+        if (!this.test(attrs.content)) return true
+        hit = true
+        return h.text(this.mask(attrs.content))
+      },
+    })
+    return { hit, content: hit ? masked : content }
+  }
+}
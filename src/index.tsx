@@ -1,18 +1,36 @@
 // This file is modified from https://www.npmjs.com/package/koishi-plugin-driftbottle, under the MIT license
 // Copyright haku530 2023
 
-import { Context, Schema, Time, Random, h, Logger, Dict } from 'koishi'
-import { pathToFileURL, fileURLToPath } from "url"
-import { resolve } from 'path'
-import { promisify } from 'util'
-import { pipeline, Readable } from 'stream'
-import { createWriteStream, unlinkSync, readFileSync, writeFileSync } from 'fs'
-import mime from "mime-types" 
+import { Context, Schema, Random, Time, h, Logger, Dict } from 'koishi'
 import {} from "@koishijs/plugin-help"
 import {} from "@koishijs/plugin-notifier"
 import {} from "koishi-plugin-puppeteer"
-
-const pipelineAsync = promisify(pipeline)
+import { Bottle, Comment, DriftBottle, DriftBottleError, RankingPeriod, RankingType, Reaction, Report, ReviewStatus, maxTagLength } from './service'
+import { PermissionConfig } from './permission'
+import { FilterConfig } from './filter'
+import { LimitConfig } from './limit'
+import { StorageConfig, StorageMode } from './storage'
+import { MediaConfig } from './media'
+import { NotifyConfig, NotifyMode, notifyModeText } from './notification'
+import { ChannelSetting, RandomSendConfig, RandomSendMode } from './scheduler'
+import { plainText } from './search'
+import { ImportResult } from './archive'
+import { resolve } from 'path'
+import { existsSync } from 'fs'
+
+export * from './service'
+export * from './permission'
+export * from './filter'
+export * from './limit'
+export * from './media'
+export * from './storage'
+export * from './delivery'
+export * from './stats'
+export * from './search'
+export * from './archive'
+export * from './migration'
+export * from './notification'
+export * from './scheduler'
 
 export const name = 're-driftbottle'
 
@@ -20,86 +38,94 @@ export const usage = `本插件翻新自https://www.npmjs.com/package/koishi-plu
 原插件因长期未维护已无法正常工作  
 更新日志：https://forum.koishi.xyz/t/topic/5747`
 
-export interface Bottle {
-  id: number;
-  name: string;
-  uid: string;
-  gid: string;
-  cnid: string;
-  username: string;
-  content: string;
-  isHot: number;
-  commentCount: number;
-  time: number;
-}
-export interface Comment {
-  id: number;
-  cid: number;
-  bid: number;
-  uid: string;
-  gid: string;
-  cnid: string;
-  username: string;
-  content: string;
-  time: number;
-}
-
-export interface Config {
+export interface Config extends PermissionConfig, FilterConfig, LimitConfig, StorageConfig, MediaConfig, NotifyConfig {
   manager: string[];
   messageRecord: boolean;
   allowPic: boolean;
+  tags: string[];
+  maxTags: number;
   allowDropOthers: boolean;
   selfDrop: boolean;
   preview: boolean;
   maxRetry: number;
   retryInterval: number;
+  retryBackoff: number;
+  maxRetryInterval: number;
   debugMode: boolean;
   alwaysShowInst: boolean;
   hotThresholdValue: number;
+  hotScore: {
+    comments: number;
+    likes: number;
+    picks: number;
+  };
   maxLength: number;
   path: string;
-  saveMode: 'url' | 'base64' | 'file';
+  saveMode: 'url' | 'base64' | 'file' | 's3' | 'assets';
+  bottleLifetime: number;
+  maxPicks: number;
+  messageTTL: number;
+  expireMode: 'archive' | 'delete';
+  cleanupInterval: number;
+  pickOwn: boolean;
+  pickHistory: number;
+  preferNew: boolean;
+  preferUnread: boolean;
   indexToImage: boolean;
+  statsToImage: boolean;
+  statsDays: number;
+  review: boolean;
+  reviewNotify: number;
+  reportThreshold: number;
   commentLimit: number;
   bottleLimit: number;
   hotBottleLimit: number;
   indexLimit: number;
   nameBottleLimit: number;
+  searchLimit: number;
   randomSend: boolean;
   minInterval?: number;
   maxInterval?: number;
+  randomSendMode?: RandomSendMode;
+  /** 旧版配置，启动时会导入数据库 */
   guildId?: Dict
 }
 
-declare module 'koishi' {
-  interface Tables {
-      bottle: Bottle;
-      comment: Comment;
-  }
-}
-
 export const Config: Schema<Config> = Schema.intersect([
   Schema.object({
     manager: Schema.array(Schema.string())
-      .required()
-      .description('管理员QQ，一个项目填一个ID'),
+      .default([])
+      .description('（旧版）管理员ID，一个项目填一个ID，不区分平台，视为 owner 角色'),
     maxRetry: Schema.number()
-      .description('漂流瓶发送失败时的最大重试次数')
+      .description('漂流瓶发送或静态资源储存失败时的最大重试次数')
       .default(5),
     retryInterval: Schema.number()
-      .description('漂流瓶发送失败时的重试间隔（毫秒）')
+      .description('第一次重试前的间隔（毫秒）')
       .default(500),
+    retryBackoff: Schema.number()
+      .min(1)
+      .description('每次重试后重试间隔的倍数（1为固定间隔）')
+      .default(2),
+    maxRetryInterval: Schema.number()
+      .description('重试间隔的上限（毫秒）')
+      .default(10000),
     debugMode: Schema.boolean()
       .description('抛出错误时在日志显示调用栈')
       .default(false),
   }).description("基础设置"),
 
+  PermissionConfig.description("权限设置"),
+
+  FilterConfig.description("内容过滤设置"),
+
+  LimitConfig.description("频率限制设置"),
+
   Schema.object({
     allowPic: Schema.boolean()
       .description('是否允许发送图片')
       .default(true),
     maxLength: Schema.number()
-      .description('漂流瓶允许的最大长度（UTF-16 码元长度）')
+      .description('漂流瓶和评论中文字部分允许的最大长度（UTF-16 码元长度，不计算图片等静态资源）')
       .default(500),
     allowDropOthers: Schema.boolean()
       .description('是否允许普通用户扔其他人的消息')
@@ -111,6 +137,8 @@ export const Config: Schema<Config> = Schema.intersect([
       Schema.const("url").description('储存URL（可能会过期）'),
       Schema.const("base64").description("储存base64编码（无本地文件）"),
       Schema.const("file").description("储存文件至本地"),
+      Schema.const("s3").description("储存文件至 S3 兼容的对象储存"),
+      Schema.const("assets").description("使用 assets 服务储存文件"),
     ])
       .default("base64")
       .description('扔漂流瓶时静态资源的默认储存方式'),
@@ -120,8 +148,51 @@ export const Config: Schema<Config> = Schema.intersect([
     })
       .description("漂流瓶静态资源文件本地储存路径")
       .required(),
+    review: Schema.boolean()
+      .description('新的瓶子和评论是否需要审核后才能被捞到')
+      .default(false),
+    reviewNotify: Schema.natural()
+      .description('审核队列每积累多少条内容时私聊提醒审核员（0为不提醒，仅提醒填写了平台的角色）')
+      .default(10),
+    reportThreshold: Schema.natural()
+      .description('瓶子或评论被多少个不同用户举报后自动隐藏（0为不自动隐藏）')
+      .default(3),
+    tags: Schema.array(Schema.string().max(maxTagLength))
+      .default(["表白", "提问", "笑话", "心情"])
+      .role("table")
+      .description('可用的瓶子标签（留空则允许任意标签）'),
+    maxTags: Schema.natural()
+      .description('每个瓶子最多有几个标签（0为不限制）')
+      .default(3),
   }).description("漂流瓶设置"),
 
+  StorageConfig.description("储存设置"),
+
+  MediaConfig.description("静态资源设置"),
+
+  NotifyConfig.description("提醒设置"),
+
+  Schema.object({
+    bottleLifetime: Schema.natural()
+      .description('瓶子的存活天数，超过后会被自动清理（0为永久，精选瓶子不会被清理）')
+      .default(0),
+    maxPicks: Schema.natural()
+      .description('瓶子被捞多少次后沉底（0为不限制，精选瓶子不会沉底）')
+      .default(0),
+    expireMode: Schema.union([
+      Schema.const("archive").description("沉底归档（不再被随机捞到，仍可通过编号查看）"),
+      Schema.const("delete").description("连同评论和本地静态资源一起删除"),
+    ])
+      .default("archive")
+      .description('瓶子过期或沉底时的处理方式'),
+    cleanupInterval: Schema.natural()
+      .description('自动清理的间隔（小时，0为不自动清理）')
+      .default(24),
+    messageTTL: Schema.natural()
+      .description('记住机器人发出的瓶子消息多少天，期间引用这些消息即可评论或回复（0为永久）')
+      .default(7),
+  }).description("过期设置"),
+
   Schema.object({
     preview: Schema.boolean()
       .description('扔漂流瓶时是否返回漂流瓶预览（顺便检测能不能发出去）')
@@ -130,16 +201,43 @@ export const Config: Schema<Config> = Schema.intersect([
       .description('是否在捞漂流瓶时总是显示使用说明')
       .default(true),
     hotThresholdValue: Schema.number()
-      .description('会被选为精选瓶子的评论数阈值')
+      .description('会被选为精选瓶子的热度阈值')
       .default(10),
+    hotScore: Schema.object({
+      comments: Schema.number().default(1).description("每条评论的热度"),
+      likes: Schema.number().default(0).description("每个点赞的热度"),
+      picks: Schema.number().default(0).description("每次被捞的热度"),
+    }).description("热度的计算方式，热度 = 评论数 × 评论权重 + 点赞数 × 点赞权重 + 被捞次数 × 被捞权重"),
     indexToImage: Schema.boolean()
       .description('是否将瓶子黄页转换为图片发送（需要 puppeteer 服务）')
       .default(false),
+    statsToImage: Schema.boolean()
+      .description('是否将统计信息转换为图片发送（需要 puppeteer 服务）')
+      .default(false),
+    statsDays: Schema.natural()
+      .min(1)
+      .description('全局统计中每日活跃和最活跃频道统计的天数')
+      .default(7),
     messageRecord: Schema.boolean()
       .description('以聊天记录形式发送漂流瓶')
       .default(true),
   }).description("显示设置"),
 
+  Schema.object({
+    pickOwn: Schema.boolean()
+      .description('随机捞漂流瓶时是否可能捞到自己的瓶子')
+      .default(false),
+    pickHistory: Schema.natural()
+      .description('随机捞漂流瓶时避开用户最近捞到过的多少个瓶子（0为不避开）')
+      .default(10),
+    preferNew: Schema.boolean()
+      .description('随机捞漂流瓶时新瓶子更容易被捞到')
+      .default(false),
+    preferUnread: Schema.boolean()
+      .description('随机捞漂流瓶时被捞次数少的瓶子更容易被捞到')
+      .default(false),
+  }).description("随机捞瓶子设置"),
+
   Schema.object({
     commentLimit: Schema.number()
       .description("捞漂流瓶时一页显示多少个评论 (0为不分页)")
@@ -156,6 +254,9 @@ export const Config: Schema<Config> = Schema.intersect([
     indexLimit: Schema.number()
       .description("瓶子黄页一页显示多少个瓶子 (0为不分页)")
       .default(0),
+    searchLimit: Schema.number()
+      .description("搜索时一页显示多少条结果 (0为不分页)")
+      .default(10),
   }).description("分页设置"),
 
   Schema.intersect([
@@ -165,14 +266,19 @@ export const Config: Schema<Config> = Schema.intersect([
         .default(false),
     }).description("随机发送设置"),
     Schema.union([
-      Schema.object({
-        randomSend: Schema.const(true).required(),
-        minInterval: Schema.number().description("在随机群发送随机漂流瓶的最小间隔（秒）").required(),
-        maxInterval: Schema.number().description("在随机群发送随机漂流瓶的最大间隔（秒）").required(),
-        guildId:Schema.dict(Schema.string())
-          .role("table")
-          .description("会发送消息的群聊ID，不填写平台名及ID代表该平台所有群，填写平台名不填写频道ID则代表不在该平台发消息\n\n键为平台（平台名以右下角状态栏为准），值为频道ID（频道ID间以半角逗号隔开）"),
-      }),
+      Schema.intersect([
+        Schema.object({
+          randomSend: Schema.const(true).required(),
+          minInterval: Schema.number().description("在随机群发送随机漂流瓶的最小间隔（秒），每次每个平台只会发送到一个群聊").required(),
+          maxInterval: Schema.number().description("在随机群发送随机漂流瓶的最大间隔（秒）").required(),
+        }),
+        RandomSendConfig,
+        Schema.object({
+          guildId:Schema.dict(Schema.string())
+            .role("table")
+            .description("（旧版）会发送消息的群聊ID，升级后填写了的平台会改为只发送到列出的群聊，之后请在群聊中使用“随机发送”指令设置\n\n键为平台（平台名以右下角状态栏为准），值为频道ID（频道ID间以半角逗号隔开）"),
+        }),
+      ]),
       Schema.object({
         randomSend: Schema.const(false),
       })
@@ -182,39 +288,72 @@ export const Config: Schema<Config> = Schema.intersect([
 
 export const inject = {
     required: ["database", "notifier"],
-    optional: ["puppeteer"]
+    optional: ["puppeteer", "assets", "canvas"]
   }
 
 
-export async function apply(ctx: Context, config: Config) {
-  const bottleMap = new Map<string, number>()
-  const notifier = ctx.notifier.create()
-  await extendTables(ctx)
-
-  let currentBottles = await ctx.database.get("bottle", {})
-  if (currentBottles?.[0]?.commentCount === -1) {
-    let count = {}
-    
-    for (let bottle of currentBottles){
-      count[bottle.id] = 0
-    }
+export function apply(ctx: Context, config: Config) {
+  ctx.plugin(DriftBottle, config)
+  ctx.inject(["driftbottle"], (ctx) => commands(ctx, config))
+}
 
-    for (let comment of await ctx.database.get("comment", {})) {
-      count[comment.bid]++  
-    }
+const statusText: Record<ReviewStatus, string> = {
+  approved: "",
+  pending: "[审核中]",
+  rejected: "[未通过审核]",
+}
 
-    let bottles = []
+/** 回复的缩进，层数过多时不再继续缩进 */
+function indent(depth: number) {
+  return depth > 0 ? "　".repeat(Math.min(depth, 4) - 1) + "↳ " : ""
+}
 
-    for (let [id, commentCount] of Object.entries(count)) {
-      bottles.push({
-        id: +id,
-        commentCount
-      })
-    }
+/** 文字形式的评论区中的一条评论 */
+function commentLine(comment: DriftBottle.Thread) {
+  return indent(comment.depth) + comment.cid + "." + (comment.deleted ? "[已删除]" : comment.username + "：" + comment.content + (comment.likeCount ? ` 👍${comment.likeCount}` : ""))
+}
 
-    await ctx.database.upsert("bottle", bottles)
-  }
-  
+/** 截取关键词前后的一段文本 */
+function snippet(text: string, keyword: string, radius = 15) {
+  const index = text.toLowerCase().indexOf(keyword.toLowerCase())
+  const start = Math.max(index - radius, 0)
+  const end = Math.min(index + keyword.length + radius, text.length)
+  return (start > 0 ? "…" : "") + text.slice(start, end) + (end < text.length ? "…" : "")
+}
+
+/** 把 YYYY-MM-DD 格式的日期转换为 Time.getDateNumber() 的天数，格式错误时返回 NaN */
+function parseDate(date: string) {
+  const match = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(date)
+  if (!match) return NaN
+  return Time.getDateNumber(new Date(+match[1], +match[2] - 1, +match[3]))
+}
+
+/** 解析用逗号或空格分隔的标签 */
+function parseTags(tags: string) {
+  return tags ? tags.split(/[,，\s]+/).filter(Boolean) : []
+}
+
+const rankingText: Record<RankingType, string> = {
+  likes: "点赞",
+  comments: "评论",
+  picks: "被捞",
+}
+
+const periodText: Record<RankingPeriod, string> = {
+  day: "今日",
+  week: "近7天",
+  all: "总",
+}
+
+const storageText: Record<StorageMode | 'base64', string> = {
+  base64: "base64编码",
+  file: "本地文件",
+  s3: "S3 对象储存",
+  assets: "assets 服务",
+}
+
+function commands(ctx: Context, config: Config) {
+  const notifier = ctx.notifier.create()
 
   if (config.randomSend) {
     async function countdown(time:number) {
@@ -237,145 +376,9 @@ export async function apply(ctx: Context, config: Config) {
         } catch {
           return
         }
-        for (let bot of ctx.bots) {
-          let guilds = config.guildId[bot.platform]
-          if (guilds === undefined) {
-            let guilds = []
-            for await (let i of bot.getGuildIter()) {
-              guilds.push(i)
-            }
-            let bottles;
-            bottles = await ctx.database.get("bottle", {})
-            let retry = 0
-            while (true) {
-              const bottle = bottles[Random.int(0, bottles.length)];
-              const {content, id, uid, username} = bottle;
-              const chain = [];
-              chain.push({ 
-              'text': `一只来自“${username}”的${id}号瓶子漂上了岸！\n发送“捞漂流瓶 ${id}”可以查看详细信息\n内容：`, 
-              });
-              chain.push({ 
-                'id': uid, 
-                'text': content, 
-                'username': username
-              });
-              let result = ""
-              let result2 = ""
-              if (chain[1].text.includes("<audio") || chain[1].text.includes("<video")) {
-                result += chain[0].text
-                result2 += chain[1].text
-              } else {
-                result += chain[0].text + chain[1].text
-              }
-
-              let guildId = Random.pick(guilds).id
-              try {
-                if (chain[1].text.includes("<audio") || chain[1].text.includes("<video")) {
-                  await bot.sendMessage(guildId, result)
-                  await bot.sendMessage(guildId, result2)
-                } else {
-                  await bot.sendMessage(guildId, result)
-                }
-                break
-              } catch (e) {
-                try {
-                  let channels = []
-                  for await (let channel of bot.getChannelIter(guildId)) {
-                    if (channel.type === 0) channels.push(channel)
-                  }
-                  let cid = Random.pick(channels).id
-                  if (chain[1].text.includes("<audio") || chain[1].text.includes("<video")) {
-                    await bot.sendMessage(cid, result)
-                    await bot.sendMessage(cid, result2)
-                  } else {
-                    await bot.sendMessage(cid, result)
-                  }
-
-                  break
-                } catch (e) {
-                  retry++
-                  let logger = new Logger('re-driftbottle')
-                  if (retry > config.maxRetry) {
-                    logger.warn(`${id}号漂流瓶发送失败（已重试${config.maxRetry}次）：${config.debugMode ? e.stack : e.name + ": " + e.message}`)
-                    break
-                  }
-                  logger.warn(`${id}号漂流瓶发送失败（已重试${retry-1}/${config.maxRetry}次，将在${config.retryInterval}ms后重新抽一个瓶子重试）：${config.debugMode ? e.stack : e.name + ": " + e.message}`)
-                  try {
-                    await ctx.sleep(config.retryInterval)
-                  } catch {
-                    return
-                  }
-                  continue
-                }
-              }
-            }
-          } else {
-            if (guilds === null || guilds.length === 0) continue
-            let bottles;
-            bottles = await ctx.database.get("bottle", {})
-            let retry = 0
-            while (true) {
-              const bottle = bottles[Random.int(0, bottles.length)];
-              const {content, id, uid, username} = bottle;
-              const chain = [];
-              chain.push({ 
-                'text': `一只来自“${username}”的${id}号瓶子漂上了岸！\n发送“捞漂流瓶 ${id}”可以查看详细信息\n内容：`, 
-              });
-              chain.push({ 
-                'id': uid, 
-                'text': content, 
-                'username': username
-              });
-              let result = ""
-              let result2 = ""
-              if (chain[1].text.includes("<audio") || chain[1].text.includes("<video")) {
-                result += chain[0].text
-                result2 += chain[1].text
-              } else {
-                result += chain[0].text + chain[1].text
-              }
-              let guildId = Random.pick(guilds.split(","))
-              try {
-                if (chain[1].text.includes("<audio") || chain[1].text.includes("<video")) {
-                  await bot.sendMessage(guildId as string, result)
-                  await bot.sendMessage(guildId as string, result2)
-                } else {
-                  await bot.sendMessage(guildId as string, result)
-                }
-                break
-              } catch (e) {
-                try {
-                  let channels = []
-                  for await (let channel of bot.getChannelIter(guildId as string)) {
-                    if (channel.type === 0) channels.push(channel)
-                  }
-                  let cid = Random.pick(channels).id
-                  if (chain[1].text.includes("<audio") || chain[1].text.includes("<video")) {
-                    await bot.sendMessage(cid, result)
-                    await bot.sendMessage(cid, result2)
-                  } else {
-                    await bot.sendMessage(cid, result)
-                  }
-                  break
-                } catch (e) {
-                  retry++
-                  let logger = new Logger('re-driftbottle')
-                  if (retry > config.maxRetry) {
-                    logger.warn(`${id}号漂流瓶发送失败（已重试${config.maxRetry}次）：${config.debugMode ? e.stack : e.name + ": " + e.message}`)
-                    break
-                  }
-                  logger.warn(`${id}号漂流瓶发送失败（已重试${retry-1}/${config.maxRetry}次，将在${config.retryInterval}ms后重新抽一个瓶子重试）：${config.debugMode ? e.stack : e.name + ": " + e.message}`)
-                  try {
-                    await ctx.sleep(config.retryInterval)
-                  } catch {
-                    return
-                  }
-                  continue
-                }
-              }
-            }
-          }
-        }
+        await ctx.driftbottle.scheduler.tick().catch((e) => {
+          ctx.logger("re-driftbottle").warn(`随机漂流瓶发送失败：${config.debugMode ? e.stack : e.name + ": " + e.message}`)
+        })
       }
     })
   }
@@ -386,167 +389,58 @@ export async function apply(ctx: Context, config: Config) {
     .usage('扔漂流瓶 <内容>\n也可以引用回复一条消息（去掉@）来直接扔漂流瓶')
     .alias("扔漂流瓶")
     .option("title", "-t <title:string> 漂流瓶标题")
+    .option("tag", "-T <tags:string> 漂流瓶标签，多个标签用逗号分隔")
     .action(async ({ session, options }, message) => {
       if (!isNaN(+options.title)) return "名字不能是纯数字！"
       let quote = session.event.message.quote
 
       if (!message && !quote) return '请输入内容或引用回复一条消息'
-      if ((quote && !config.manager.includes(session.event.user.id) && quote.user.id !== session.event.user.id) && !config.allowDropOthers) return '你没有权限扔别人的漂流瓶！'
+      const limited = await ctx.driftbottle.checkLimit(session, 'drop')
+      if (limited) return limited
+      if ((quote && quote.user.id !== session.event.user.id && !await ctx.driftbottle.hasPermission(session, 'drop-others')) && !config.allowDropOthers) return '你没有权限扔别人的漂流瓶！'
       let uid
       if (config.selfDrop) {
         uid = session.event.user.id
       } else {
         uid = quote?.user.id ?? session.event.user.id
       }
-      let gid = session.event?.guild?.id
-      let cnid = session.event?.channel?.id
-      let content = quote?.content ?? message;
-
-      content = config.allowPic ? content : content.replace(/<.*?>/g, '')
-
-      if (content.length < 1)
-        return '内容过短！'
-
-      let preview = await ctx.database.create('bottle', {
-        uid: uid, 
-        gid: gid, 
-        cnid: cnid,
-        username: session.username,
-        content: content, 
-        commentCount: 0,
-        time: Time.getDateNumber(),
-        name: options.title ?? ""
-      });
 
-      if (config.saveMode === 'file') {
-        let retry = 0
-        while (true) {
-          try {
-            let flag = false
-            let elements = h.parse(content)
-            elements = await Promise.all(elements.map(async (element, index) => {
-              if (["img", "audio", "video"].includes(element.type) && !element.attrs.src.startsWith("file")) {
-                flag = true
-                let response = await ctx.http("get", element.attrs.src, {responseType: "stream"})
-                let responseStream = Readable.from(response.data)
-                let ext = mime.extension(response.headers.get("content-type"))
-                let path = resolve(config.path, `bottle-${preview.id}-${index}.${ext}`)
-                let writer = createWriteStream(path)
-                await pipelineAsync(responseStream, writer)
-                element.attrs.src = pathToFileURL(path).href
-              }
-              return element
-            }))
-            
-            if (flag) {
-              content = elements.join("")
-            }
-            
-            break
-          } catch (e) {
-            retry++
-            let logger = new Logger('re-driftbottle')
-            if (retry > config.maxRetry) {
-              logger.warn(`${ preview.id }号漂流瓶资源储存失败（已重试${ config.maxRetry }次）：${config.debugMode ? e.stack : e.name + ": " + e.message}`)
-              await session.send("这个漂流瓶中的静态资源无法储存，请查看日志！\n你可以尝试以下方法：\n保存图片后使用指令“扔漂流瓶 [图片]”（如果你要扔的是图片的话）\n缩短漂流瓶长度\n稍后重试\n联系开发者")
-              await ctx.database.remove('bottle', { id: preview.id })
-              logger.info(`${ preview.id }号漂流瓶已被删除`)
-              return
-            }
-            logger.warn(`${ preview.id }号漂流瓶资源储存失败（已重试${retry-1}/${config.maxRetry}次，将在${config.retryInterval}ms后重试：${config.debugMode ? e.stack : e.name + ": " + e.message}`)
-            try {
-              await ctx.sleep(config.retryInterval)
-            } catch {
-              return
-            }
-            continue  
-          }
-        }
-      } else if (config.saveMode === 'base64') {
-        let retry = 0
-        while (true) {
-          try {
-            let flag = false
-            let elements = h.parse(content)
-            elements = await Promise.all(elements.map(async (element, index) => {
-              if (["img", "audio", "video"].includes(element.type) && !element.attrs.src.startsWith("file") && !element.attrs.src.startsWith("data")) {
-                flag = true
-                let response = await ctx.http("get", element.attrs.src, {responseType: "arraybuffer"})
-                let base64 = Buffer.from(response.data).toString('base64');
-                let mimeType = response.headers.get("content-type")
-                element.attrs.src = `data:${mimeType};base64,${base64}`
-              }
-              return element
-            }))
-            
-            if (flag) {
-              content = elements.join("")
-            }
-            
-            break
-          } catch (e) {
-            retry++
-            let logger = new Logger('re-driftbottle')
-            if (retry > config.maxRetry) {
-              logger.warn(`${ preview.id }号漂流瓶资源储存失败（已重试${ config.maxRetry }次）：${config.debugMode ? e.stack : e.name + ": " + e.message}`)
-              await session.send("这个漂流瓶中的静态资源无法储存，请查看日志！\n你可以尝试以下方法：\n保存图片后使用指令“扔漂流瓶 [图片]”（如果你要扔的是图片的话）\n缩短漂流瓶长度\n稍后重试\n联系开发者")
-              await ctx.database.remove('bottle', { id: preview.id })
-              logger.info(`${ preview.id }号漂流瓶已被删除`)
-              return
-            }
-            logger.warn(`${ preview.id }号漂流瓶资源储存失败（已重试${retry-1}/${config.maxRetry}次，将在${config.retryInterval}ms后重试：${config.debugMode ? e.stack : e.name + ": " + e.message}`)
-            try {
-              await ctx.sleep(config.retryInterval)
-            } catch {
-              return
-            }
-            continue  
-          }
-        }
-      } 
-      
-      if (content.length > config.maxLength)
-        return '内容过长！'
-      
-      await ctx.database.set("bottle", { id: preview.id }, {
-        content
-      })
+      let preview: Bottle
+      try {
+        preview = await ctx.driftbottle.drop({
+          uid,
+          gid: session.event?.guild?.id,
+          cnid: session.event?.channel?.id,
+          username: session.username,
+          content: quote?.content ?? message,
+          name: options.title,
+          tags: parseTags(options.tag),
+        }, session)
+      } catch (e) {
+        if (!(e instanceof DriftBottleError)) throw e
+        if (e.code !== 'media-failed') return e.message
+        return "这个漂流瓶中的静态资源无法储存，请查看日志！\n你可以尝试以下方法：\n保存图片后使用指令“扔漂流瓶 [图片]”（如果你要扔的是图片的话）\n缩短漂流瓶长度\n稍后重试\n联系开发者"
+      }
       
+      await ctx.driftbottle.recordLimit(session, 'drop')
+      const dropped = preview.status === "pending" ? `你的${preview.id}号漂流瓶已提交审核，审核通过后才会漂出去！` : `你的${preview.id}号漂流瓶扔出去了！`
       if (config.preview) {
-        let retry = 0
-        while (true) {
-          try {
-            let bottleTime = new Date(preview.time * 86400000);
-            let bottleTimeStr = `${bottleTime.getFullYear()}年${bottleTime.getMonth() + 1}月${bottleTime.getDate()}日`
+        try {
+          await ctx.driftbottle.delivery.run(`${preview.id}号漂流瓶预览发送`, async () => {
             if (preview.content.includes("<audio") || preview.content.includes("<video")) {
-              await session.bot.sendMessage(session.event.channel.id, `你的${preview.id}号漂流瓶扔出去了！\n发送“漂流瓶.命名瓶子 编号 名字”可以命名瓶子！（可以重名哦）\n命名后可以发送“漂流瓶.捞漂流瓶 名字”来捞漂流瓶，只要名字包含就能被捞到！\n\n漂流瓶预览：`)
+              await session.bot.sendMessage(session.event.channel.id, `${dropped}\n发送“漂流瓶.命名瓶子 编号 名字”可以命名瓶子！（可以重名哦）\n命名后可以发送“漂流瓶.捞漂流瓶 名字”来捞漂流瓶，只要名字包含就能被捞到！\n\n漂流瓶预览：`)
               await session.bot.sendMessage(session.event.channel.id, preview.content)
             } else {
-              await session.bot.sendMessage(session.event.channel.id, `你的${preview.id}号漂流瓶扔出去了！\n发送“漂流瓶.命名瓶子 编号 名字”可以命名瓶子！（可以重名哦）\n命名后可以发送“漂流瓶.捞漂流瓶 名字”来捞漂流瓶，只要名字包含就能被捞到！\n\n漂流瓶预览：\n${preview.content}`)
-            }
-            break
-            
-          } catch (e) {
-            retry++
-            let logger = new Logger('re-driftbottle')
-            if (retry > config.maxRetry) {
-              logger.warn(`${ preview.id }号漂流瓶预览发送失败（已重试${ config.maxRetry }次）：${config.debugMode ? e.stack : e.name + ": " + e.message}`)
-              await session.send("这个漂流瓶无法发送，请查看日志！\n你可以尝试以下方法：\n保存图片后使用指令“扔漂流瓶 [图片]”（如果你要扔的是图片的话）\n缩短漂流瓶长度\n稍后重试\n联系开发者")
-              await ctx.database.remove('bottle', { id: preview.id })
-              logger.info(`${ preview.id }号漂流瓶已被删除`)
-              break
-            }
-            logger.warn(`${ preview.id }号漂流瓶预览发送失败（已重试${retry-1}/${config.maxRetry}次，将在${config.retryInterval}ms后重试：${config.debugMode ? e.stack : e.name + ": " + e.message}`)
-            try {
-              await ctx.sleep(config.retryInterval)
-            } catch {
-              return
+              await session.bot.sendMessage(session.event.channel.id, `${dropped}\n发送“漂流瓶.命名瓶子 编号 名字”可以命名瓶子！（可以重名哦）\n命名后可以发送“漂流瓶.捞漂流瓶 名字”来捞漂流瓶，只要名字包含就能被捞到！\n\n漂流瓶预览：\n${preview.content}`)
             }
-            continue  
-          }
+          })
+        } catch {
+          await session.send("这个漂流瓶无法发送，请查看日志！\n你可以尝试以下方法：\n保存图片后使用指令“扔漂流瓶 [图片]”（如果你要扔的是图片的话）\n缩短漂流瓶长度\n稍后重试\n联系开发者")
+          await ctx.driftbottle.remove(preview.id)
+          ctx.logger("re-driftbottle").info(`${ preview.id }号漂流瓶已被删除`)
         }
       } else {
-        return h.text(`你的${preview.id}号漂流瓶扔出去了！\n发送“漂流瓶.命名瓶子 <编号> <名字>”可以命名瓶子！（可以重名哦）\n命名后可以发送“漂流瓶.捞漂流瓶 名字”来捞漂流瓶，只要名字包含就能被捞到！`);
+        return h.text(`${dropped}\n发送“漂流瓶.命名瓶子 <编号> <名字>”可以命名瓶子！（可以重名哦）\n命名后可以发送“漂流瓶.捞漂流瓶 名字”来捞漂流瓶，只要名字包含就能被捞到！`);
       }
 
     })
@@ -554,105 +448,103 @@ export async function apply(ctx: Context, config: Config) {
   ctx.command("漂流瓶.捞漂流瓶 [bottleId:string] [page:posint]")
     .alias("捞漂流瓶")
     .usage('捞漂流瓶 <瓶子编号/标题> [分页]\n不填瓶子编号则随机捞一个瓶子')
-    .action(async ({ session }, bottleId, page) => {
-      let bottles;
+    .option("tag", "-T <tag:string> 随机捞一个带有指定标签的瓶子")
+    .action(async ({ session, options }, bottleId, page) => {
+      const limited = await ctx.driftbottle.checkLimit(session, 'pick')
+      if (limited) return limited
+      let bottles: Bottle[]
       if (!bottleId) {
-        bottles = await ctx.database.get("bottle", {})
-        if (!bottles || bottles.length < 1) return "没有瓶子了！"
+        if (await ctx.driftbottle.count() === 0) return "没有瓶子了！"
       } else {
         if (isNaN(+bottleId)) {
-          bottles = await ctx.database
-            .select('bottle')
-            .where({name: {$regex: new RegExp(bottleId)}})
-            .orderBy('id', 'asc')
-            .limit(config.bottleLimit !== 0 ? config.bottleLimit : Infinity)
-            .offset(config.bottleLimit !== 0 ? ((page ?? 1) - 1) * config.bottleLimit : 0)
-            .execute()
+          bottles = await ctx.driftbottle.list({name: bottleId}, page ?? 1, config.bottleLimit)
         } else {
-          bottles = await ctx.database.get("bottle", {id: +bottleId})
+          bottles = await ctx.driftbottle.get(+bottleId).then((bottle) => [bottle], () => [])
+          if (bottles[0] && (bottles[0].status !== "approved" || bottles[0].hidden) && bottles[0].uid !== session.userId && !await ctx.driftbottle.hasPermission(session, 'review')) bottles = []
         }
-        if (!bottles || bottles.length < 1) {
+        if (bottles.length < 1) {
           return "没有这个瓶子！"
         } else if (bottles.length > 1) {
-          let bottlesLength = (await ctx.database.get("bottle", {name: {$regex: new RegExp(bottleId)}})).length
+          let bottlesLength = await ctx.driftbottle.count({name: bottleId})
           return h.text(`发送“捞漂流瓶 <编号>”捞取指定瓶子
 发送“捞漂流瓶 ${bottleId} <分页>”切换分页
 请选择你要捞的瓶子（编号：标题）\n${bottles.map((bottle) => `${bottle.id}：${bottle.name}`).join("\n")}
 ${config.bottleLimit !== 0 ? `\n第${page ?? 1}/${Math.ceil(bottlesLength / config.bottleLimit)}页` : ""}`)
         }
       }
-      let retry = 0
-      while (true) {
-        const bottle = bottles[Random.int(0, bottles.length)];
-        const {content, id, uid, username, time} = bottle;
-        const commentsLength = (await ctx.database.get("comment", {bid: id})).length;
-        const comments = await ctx.database
-          .select('comment')
-          .where({ bid: id })
-          .orderBy('cid', 'asc')
-          .limit(config.commentLimit !== 0 ? config.commentLimit : Infinity)
-          .offset(config.commentLimit !== 0 ? ((page ?? 1) - 1) * config.commentLimit : 0)
-          .execute()
-        const chain = [];
-        let bottleTime = new Date(time * 86400000);
-        let bottleTimeStr = `${bottleTime.getFullYear()}年${bottleTime.getMonth() + 1}月${bottleTime.getDate()}日`
-        chain.push({ 
-        'text': h.text(`你捞到了${id}号漂流瓶，来自“${username}”！\n标题：${bottle.name}\n日期：${bottleTimeStr}\n${config.alwaysShowInst ? `发送“捞漂流瓶 ${id} [分页]”可以查看评论区的其他分页\n发送“评论瓶子 ${id} <内容>”或引用瓶子消息就可以在下面评论这只瓶子\n发送“评论瓶子 [-r <评论编号>] ${id} <内容>”可以回复评论区的评论\n`: ""}`), 
-        });
-        chain.push({ 
-          'id': uid, 
-          'text': content, 
-          'username': username,
-        });
-        if (comments.length > 0)
+      let bottle: Bottle
+      let links: [string[], number][]
+      try {
+        await ctx.driftbottle.delivery.run(() => `${bottle.id}号漂流瓶发送`, async () => {
+          links = []
+          bottle = bottles ? bottles[0] : await ctx.driftbottle.pick({platform: session.platform, uid: session.userId}, options.tag?.replace(/^#/, "")).catch(() => null);
+          if (!bottle) return
+          const {content, id, uid, username, time} = bottle;
+          const tags = await ctx.driftbottle.getTags(id)
+          const commentsLength = await ctx.driftbottle.countComments(id);
+          const comments = await ctx.driftbottle.comments(id, page ?? 1, config.commentLimit)
+          const chain = [];
+          let bottleTime = new Date(time * 86400000);
+          let bottleTimeStr = `${bottleTime.getFullYear()}年${bottleTime.getMonth() + 1}月${bottleTime.getDate()}日`
           chain.push({ 
-            'text': `----评论区，内容前为评论编号和用户昵称----`, 
+          'text': h.text(`你捞到了${id}号漂流瓶，来自“${username}”！\n标题：${bottle.name}\n日期：${bottleTimeStr}\n${tags.length ? `标签：${tags.map((tag) => "#" + tag).join(" ")}\n` : ""}点赞：${bottle.likeCount}\n${config.alwaysShowInst ? `发送“捞漂流瓶 ${id} [分页]”可以查看评论区的其他分页\n发送“评论瓶子 ${id} <内容>”或引用瓶子消息就可以在下面评论这只瓶子\n发送“评论瓶子 [-r <评论编号>] ${id} <内容>”可以回复评论区的评论\n发送“点赞 ${id} [评论编号]”可以给瓶子或评论点赞\n`: ""}`), 
           });
-        for (const comment of comments) {
-          const { username: commentName, content: commentContent, uid: commentUid, cid: commentId } = comment;
-          chain.push({ 'id': commentId + ".", 'text': commentContent, 'username': commentName });
-        }
-        let result = ""
-        let result2 = ""
-        if (chain[1].text.includes("<audio") || chain[1].text.includes("<video")) {
-          result += chain[0].text + '\n' + `内容：`;
-          result2 += chain[1].text;
-        } else {
-          result += chain[0].text + '\n' + `内容：\n${chain[1].text}`;
-        }
-
-        let com = ""
-        if (comments.length > 0) {
+          chain.push({ 
+            'id': uid, 
+            'text': content, 
+            'username': username,
+          });
+          if (comments.length > 0)
+            chain.push({ 
+              'text': `----评论区，内容前为评论编号和用户昵称----`, 
+            });
+          for (const comment of comments) {
+            const { username: commentName, content: commentContent, cid: commentId } = comment;
+            chain.push({ 'id': commentId + ".", 'text': commentContent, 'username': commentName, 'line': commentLine(comment) });
+          }
+          let result = ""
+          let result2 = ""
           if (chain[1].text.includes("<audio") || chain[1].text.includes("<video")) {
-            com += "\n\n" + chain[2].text + "\n"
-            for (let i of chain.slice(3)) {
-              com += i.id + i.username + "：" + i.text + "\n"
-            }
-            result2 += com
+            result += chain[0].text + '\n' + `内容：`;
+            result2 += chain[1].text;
           } else {
-            com += "\n\n" + chain[2].text + "\n"
-            for (let i of chain.slice(3)) {
-              com += i.id + i.username + "：" + i.text + "\n"
-            }
-            result += com
+            result += chain[0].text + '\n' + `内容：\n${chain[1].text}`;
           }
+
+          let com = ""
+          if (comments.length > 0) {
+            if (chain[1].text.includes("<audio") || chain[1].text.includes("<video")) {
+              com += "\n\n" + chain[2].text + "\n"
+              for (let i of chain.slice(3)) {
+                com += i.line + "\n"
+              }
+              result2 += com
+            } else {
+              com += "\n\n" + chain[2].text + "\n"
+              for (let i of chain.slice(3)) {
+                com += i.line + "\n"
+              }
+              result += com
+            }
           
-        }
+          }
 
-        if (config.commentLimit !== 0 && comments.length > 0) result += (`\n第${page ?? 1}/${Math.ceil(commentsLength / config.commentLimit)}页`)
-        try {
+          if (config.commentLimit !== 0 && comments.length > 0) result += (`\n第${page ?? 1}/${Math.ceil(commentsLength / config.commentLimit)}页`)
           if (config.messageRecord) {
             if (comments.length > 0) {
               let commentInfo = []
               for (const comment of comments) {
-                const { username: commentName, content: commentContent, uid: commentUid} = comment;
+                const { username: commentName, content: commentContent, uid: commentUid, cid: commentId, parent } = comment;
                 commentInfo.push({
-                  commentName,
-                  commentContent: commentContent.slice(1, -1),
-                  commentUid
+                  commentName: comment.deleted ? session.bot.user.name : commentName,
+                  commentContent: comment.deleted
+                    ? `${commentId}. [已删除]`
+                    : `${indent(comment.depth)}${parent ? `回复 ${parent.cid}. ${parent.deleted ? "[已删除]" : parent.username}：` : ""}${commentContent.slice(1, -1)}`,
+                  commentUid: comment.deleted ? session.selfId : commentUid,
+                  commentId
                 });
               }
-              bottleMap.set((await session.bot.sendMessage(session.event.channel.id, 
+              let messageIds = await session.bot.sendMessage(session.event.channel.id, 
                 <message forward>
                   <message>
                     <author id={session.selfId} name={session.bot.user.name}/>
@@ -673,9 +565,16 @@ ${config.bottleLimit !== 0 ? `\n第${page ?? 1}/${Math.ceil(bottlesLength / conf
                     </message>
                   ))}
                 </message>
-              ))[0], bottle.id)
+              )
+              // 部分平台会把聊天记录中的每条消息分开发送，此时可以分别对应到瓶子和评论
+              if (messageIds.length === commentInfo.length + 3) {
+                links.push([messageIds.slice(0, 3), 0])
+                commentInfo.forEach((comment, index) => links.push([[messageIds[index + 3]], comment.commentId]))
+              } else {
+                links.push([messageIds, 0])
+              }
             } else {
-              bottleMap.set((await session.bot.sendMessage(session.event.channel.id, 
+              links.push([await session.bot.sendMessage(session.event.channel.id, 
                 <message forward>
                   <message>
                     <author id={session.selfId} name={session.bot.user.name}/>
@@ -686,31 +585,25 @@ ${config.bottleLimit !== 0 ? `\n第${page ?? 1}/${Math.ceil(bottlesLength / conf
                     {h.parse(chain[1].text)}
                   </message>
                 </message>
-              ))[0], bottle.id)
+              ), 0])
             }
           } else {
-            bottleMap.set((await session.bot.sendMessage(session.event.channel.id, result))[0], bottle.id);
+            links.push([await session.bot.sendMessage(session.event.channel.id, result), 0])
             if (chain[1].text.includes("<audio") || chain[1].text.includes("<video")) {
-              bottleMap.set((await session.bot.sendMessage(session.event.channel.id, result2))[0], bottle.id);
+              links.push([await session.bot.sendMessage(session.event.channel.id, result2), 0])
             }
           }
-          break
-        } catch (e) {
-          retry++
-          let logger = new Logger('re-driftbottle')
-          if (retry > config.maxRetry) {
-            logger.warn(`${id}号漂流瓶发送失败（已重试${config.maxRetry}次）：${config.debugMode ? e.stack : e.name + ": " + e.message}`)
-            return "漂流瓶发送失败，请查看日志！"
-          }
-          logger.warn(`${id}号漂流瓶发送失败（已重试${retry-1}/${config.maxRetry}次，将在${config.retryInterval}ms后${!bottleId ? "重新抽一个瓶子" : ""}重试）：${config.debugMode ? e.stack : e.name + ": " + e.message}`)
-          try {
-            await ctx.sleep(config.retryInterval)
-          } catch {
-            return
-          }
-          continue
-        }
+        })
+      } catch {
+        return "漂流瓶发送失败，请查看日志！"
       }
+      if (!bottle) return options.tag ? `没有带有“${options.tag}”标签的瓶子了！` : "没有瓶子了！"
+      for (let [messageIds, cid] of links) {
+        await ctx.driftbottle.linkMessages(session.platform, session.channelId, messageIds, bottle.id, cid)
+      }
+      await ctx.driftbottle.markPicked(bottle, session, !bottles)
+      await ctx.driftbottle.stats.record(bottle.id, bottles ? "view" : "pick", {platform: session.platform, channelId: session.channelId, uid: session.userId})
+      await ctx.driftbottle.recordLimit(session, 'pick')
 
     })
 
@@ -723,244 +616,57 @@ ${config.bottleLimit !== 0 ? `\n第${page ?? 1}/${Math.ceil(bottlesLength / conf
       .option('rid', '-r <rid: integer> 回复评论', { fallback: 0 })
       .example('评论瓶子 [-r <评论编号>] <瓶子编号> <内容>，[]内为可选参数，加上后代表要回复评论而不是评论瓶子')
       .action(async ({ session, options, root }, id, ct) => {
-        const bottle = (await ctx.database.get('bottle', { id: id }))[0];
+        const bottle = await ctx.driftbottle.get(id).catch(() => null);
         if (!bottle) return '你要评论的瓶子不存在！';
         let replyId, comment;
         const rid = parseInt(options.rid) || 0;
         if (rid > 0) {
           replyId = rid;
-          comment = (await ctx.database.get('comment', { bid: id, cid: replyId }))[0];
+          comment = await ctx.driftbottle.getComment(id, replyId).catch(() => null);
           if (!comment) return '你要回复的评论不存在！';
         }
 
         const quote = session.event.message.quote
         if (!ct && !quote) return '请输入内容或引用回复一条消息';
+        const limited = await ctx.driftbottle.checkLimit(session, 'comment')
+        if (limited) return limited
         let uid: string
         if (root) {
           uid = quote?.user.id ?? session.event.user.id;
         } else {
           uid = session.event.user.id;
         }
-        let gid = session.event?.guild?.id;
-        let cnid = session.event?.channel?.id;
-        const { uid: buid, gid: bgid, cnid: bcnid } = bottle;
-        ct = config.allowPic ? ct : ct.replace(/<.*?>/g, '');
-        if (ct.includes("<audio ") || ct.includes("<video ")) return '评论暂不支持音频或视频！';
-        if (ct.length > config.maxLength) return '内容过长！';
-        if (ct.length < 1) return '内容过短！';
-        ct = "“" + ct + "”"
-        if (session.platform !== "qq") {
-          for (const bot of ctx.bots) {
-            let flag = true
-            const guildList = bot.getGuildIter();
-            let friendList
-            try {
-              friendList = bot.getFriendIter();
-            } catch {
-              flag = false
-            }
-            if (!replyId) {
-              if (uid !== buid) {
-                for await (let i of guildList) {
-                  if (i.id === bgid || i.id === bcnid) {
-                    try {
-                      try {
-                        if (bcnid.length === 0) throw new Error('bcnid is empty');
-                        await bot.sendMessage(bcnid, h("at", {id: buid}) + ` 你的${id}号瓶子有新评论！\n\n${ct}\n\n发送【捞漂流瓶 ${id}】查看详情`)
-                      } catch (e) {
-                        await bot.sendMessage(bgid, h("at", {id: buid}) + ` 你的${id}号瓶子有新评论！\n\n${ct}\n\n发送【捞漂流瓶 ${id}】查看详情`)
-                      }
-                    } catch (e) {
-                      await session.send("评论提醒发送失败")
-                    }
-
-                    flag = false
-                    break
-                  }
-                }
-                if (flag) {
-                  for await (let i of friendList) {
-                    try {
-                      if (i.id === bcnid.replace("private:", "")) {
-                        await bot.sendMessage(bcnid, ` 你的${id}号瓶子有新评论！\n\n${ct}\n\n发送【捞漂流瓶 ${id}】查看详情`)
-                        break
-                      }
-                    } catch (e) {
-                      await session.send("评论提醒发送失败")
-                    }
-                  }
-                }
-              }
-            } else {
-              const { username: commentUsername, uid: cuid, gid: cgid, cnid: ccnid } = comment;
-              ct = `回复 ${replyId}. ${commentUsername}：${ct}`;
-              if (cuid !== uid) {
-                for await (let i of guildList) {
-                  if (i.id === bgid || i.id === ccnid) {
-                    const atUser = h("at", {id: cuid});
-                    const message = `${atUser} ${id}号瓶子中你的${replyId}号评论有新回复！\n\n${ct}\n\n发送【捞漂流瓶 ${id}】查看详情`;
-                    try {
-                      try {
-                        if (ccnid.length === 0) throw new Error('ccnid is empty');
-                        await bot.sendMessage(ccnid, message)
-                      } catch (e) {
-                        await bot.sendMessage(cgid, message);
-                      }
-                    } catch (e) {
-                      await session.send("评论提醒发送失败")
-                    }
-                    flag = false
-                    break;
-                  }
-                }
-                if (flag) {
-                  for await (let i of friendList) {
-                    try {
-                      if (i.id === ccnid.replace("private:", "")) {
-                        await bot.sendMessage(bcnid, ` ${id}号瓶子中你的${replyId}号评论有新回复！\n\n${ct}\n\n发送【捞漂流瓶 ${id}】查看详情`)
-                        break
-                      }
-                    } catch (e) {
-                      await session.send("评论提醒发送失败")
-                    }
-                  }
-                }
-              }
-            }
-          }
-        }
-        let data = await ctx.database.get('comment', { bid: id });
-        let cid = data.length === 0 ? 1 : Math.max(...data.map(c => c.cid)) + 1;
-        let preview = await ctx.database.create('comment', {
-          cid: cid,
-          bid: id, 
-          uid: uid, 
-          gid: gid, 
-          cnid: cnid,
-          username: session.username,
-          content: ct, 
-          time: Time.getDateNumber() 
-        });
-
-        if (config.saveMode === "file") {
-          let retry = 0
-          while (true) {
-            try {
-              let flag = false
-              let elements = h.parse(ct)
-              elements = await Promise.all(elements.map(async (element, index) => {
-                if (["img", "audio", "video"].includes(element.type) && !element.attrs.src.startsWith("file")) {
-                  flag = true
-                  let response = await ctx.http("get", element.attrs.src, {responseType: "stream"})
-                  let responseStream = Readable.from(response.data)
-                  let ext = mime.extension(response.headers.get("content-type"))
-                  let path = resolve(config.path, `comment-${preview.id}-${index}.${ext}`)
-                  let writer = createWriteStream(path)
-                  await pipelineAsync(responseStream, writer)
-                  element.attrs.src = pathToFileURL(path).href
-                }
-                return element
-              }))
-              
-              if (flag) {
-                await ctx.database.set("comment", {id: preview.id}, {
-                  content: elements.join("")
-                })
-              }
-              
-              break
-            } catch (e) {
-              retry++
-              let logger = new Logger('re-driftbottle')
-              if (retry > config.maxRetry) {
-                logger.warn(`${id}号漂流瓶中的${cid}号评论资源储存失败（已重试${ config.maxRetry }次）：${config.debugMode ? e.stack : e.name + ": " + e.message}`)
-                await session.send("这个评论中的静态资源无法储存，请查看日志！\n你可以尝试以下方法：\n保存图片后使用指令（如果你要扔的是图片的话）\n缩短漂流瓶长度\n稍后重试\n联系开发者")
-                await ctx.database.remove('comment', { id: preview.id })
-                logger.info(`${id}号漂流瓶中的${cid}号评论已被删除`)
-                return
-              }
-              logger.warn(`${id}号漂流瓶中的${cid}号评论资源储存失败（已重试${retry-1}/${config.maxRetry}次，将在${config.retryInterval}ms后重试：${config.debugMode ? e.stack : e.name + ": " + e.message}`)
-              try {
-                await ctx.sleep(config.retryInterval)
-              } catch {
-                return
-              }
-              continue  
-            }
-          }
-        } else if (config.saveMode === "base64") {
-          let retry = 0
-          while (true) {
-            try {
-              let flag = false
-              let elements = h.parse(ct)
-              elements = await Promise.all(elements.map(async (element, index) => {
-                if (["img", "audio", "video"].includes(element.type) && !element.attrs.src.startsWith("file") && !element.attrs.src.startsWith("data")) {
-                  flag = true
-                  let response = await ctx.http("get", element.attrs.src, {responseType: "arraybuffer"})
-                  let base64 = Buffer.from(response.data).toString("base64")
-                  let mimeType = response.headers.get("content-type")
-                  element.attrs.src = `data:${mimeType};base64,${base64}`
-                }
-                return element
-              }))
-              
-              if (flag) {
-                await ctx.database.set("comment", {id: preview.id}, {
-                  content: elements.join("")
-                })
-              }
-              
-              break
-            } catch (e) {
-              retry++
-              let logger = new Logger('re-driftbottle')
-              if (retry > config.maxRetry) {
-                logger.warn(`${id}号漂流瓶中的${cid}号评论资源储存失败（已重试${ config.maxRetry }次）：${config.debugMode ? e.stack : e.name + ": " + e.message}`)
-                await session.send("这个评论中的静态资源无法储存，请查看日志！\n你可以尝试以下方法：\n保存图片后使用指令（如果你要扔的是图片的话）\n缩短漂流瓶长度\n稍后重试\n联系开发者")
-                await ctx.database.remove('comment', { id: preview.id })
-                logger.info(`${id}号漂流瓶中的${cid}号评论已被删除`)
-                return
-              }
-              logger.warn(`${id}号漂流瓶中的${cid}号评论资源储存失败（已重试${retry-1}/${config.maxRetry}次，将在${config.retryInterval}ms后重试：${config.debugMode ? e.stack : e.name + ": " + e.message}`)
-              try {
-                await ctx.sleep(config.retryInterval)
-              } catch {
-                return
-              }
-              continue  
-            }
-          }
+        let preview: Comment
+        try {
+          preview = await ctx.driftbottle.comment(id, {
+            uid,
+            gid: session.event?.guild?.id,
+            cnid: session.event?.channel?.id,
+            username: session.username,
+            content: ct ?? quote.content,
+            replyId,
+          }, session)
+        } catch (e) {
+          if (!(e instanceof DriftBottleError)) throw e
+          if (e.code !== 'media-failed') return e.message
+          return "这个评论中的静态资源无法储存，请查看日志！\n你可以尝试以下方法：\n保存图片后使用指令（如果你要扔的是图片的话）\n缩短漂流瓶长度\n稍后重试\n联系开发者"
         }
-
+        const cid = preview.cid
+        await ctx.driftbottle.recordLimit(session, 'comment')
+        ct = preview.content
         if (config.preview) {
-          let logger = new Logger("re-driftbottle")
-          let retry = 0
-          while (true) {
-            try {
-              await session.bot.sendMessage(session.event.channel.id, '你的评论已经扔出去了！\n评论预览：\n' + cid + "." + session.username + "：" + ct + "\n");
-              await ctx.database.set("bottle", {id}, {commentCount: (await ctx.database.get("bottle", {id}))[0].commentCount + 1})
-              break
-            } catch (e) {
-              retry++
-              if (retry > config.maxRetry) {
-                await session.send("这个评论无法发送，请查看日志！\n你可以尝试以下方法：\n保存图片后使用指令“评论瓶子 [瓶子编号] [图片]”（如果你要扔的是图片的话）\n缩短评论长度\n稍后重试\n联系开发者")
-                logger.warn(`${id}号漂流瓶中的${cid}号评论预览发送失败（已重试${config.maxRetry}次）：${config.debugMode ? e.stack : e.name + ": " + e.message}`)
-                await ctx.database.remove('comment', { bid: id, cid: cid });
-                logger.info(`已删除${id}号漂流瓶中的${cid}号评论`)
-                break
-              }
-              logger.warn(`${id}号漂流瓶中的${cid}号评论预览发送失败（已重试${retry-1}/${config.maxRetry}次，将在${config.retryInterval}ms后重试）：${config.debugMode ? e.stack : e.name + ": " + e.message}`)
-              try {
-                await ctx.sleep(config.retryInterval)
-              } catch {
-                return
-              }
-            }
+          try {
+            let messageIds = await ctx.driftbottle.delivery.run(`${id}号漂流瓶中的${cid}号评论预览发送`, async () => {
+              return await session.bot.sendMessage(session.event.channel.id, (preview.status === "pending" ? '你的评论已提交审核，审核通过后才会显示！' : '你的评论已经扔出去了！') + '\n评论预览：\n' + cid + "." + session.username + "：" + ct + "\n");
+            })
+            if (preview.status === "approved") await ctx.driftbottle.linkMessages(session.platform, session.channelId, messageIds, id, cid)
+          } catch {
+            await session.send("这个评论无法发送，请查看日志！\n你可以尝试以下方法：\n保存图片后使用指令“评论瓶子 [瓶子编号] [图片]”（如果你要扔的是图片的话）\n缩短评论长度\n稍后重试\n联系开发者")
+            await ctx.driftbottle.removeComment(id, cid);
+            ctx.logger("re-driftbottle").info(`已删除${id}号漂流瓶中的${cid}号评论`)
           }
         } else {
-          await session.bot.sendMessage(session.event.channel.id, '你的评论已经扔出去了！')
-          await ctx.database.set("bottle", {id}, {commentCount: (await ctx.database.get("bottle", {id})).length + 1})
+          await session.bot.sendMessage(session.event.channel.id, preview.status === "pending" ? '你的评论已提交审核，审核通过后才会显示！' : '你的评论已经扔出去了！')
         }
       })
 
@@ -968,44 +674,41 @@ ${config.bottleLimit !== 0 ? `\n第${page ?? 1}/${Math.ceil(bottlesLength / conf
       .alias("删除瓶子")
       .example('删除瓶子 <瓶子编号>')
       .action(async ({ session }, id) => {
-        const bottle = (await ctx.database.get('bottle', { id: id }))[0];
+        const bottle = await ctx.driftbottle.get(id).catch(() => null);
         if (!bottle)
             return '你要删除的瓶子不存在！';
-        if (!config.manager.includes(session.event.user.id) && session.event.user.id !== bottle.uid)
+        if (session.event.user.id !== bottle.uid && !await ctx.driftbottle.hasPermission(session, 'delete-bottle'))
             return '你没有权限删除别人的瓶子！';
-        for (let element of h.parse(bottle.content)) {
-          if (["img", "audio", "video"].includes(element.type) && element.attrs.src.startsWith("file")) {
-            unlinkSync(fileURLToPath(element.attrs.src))
-          }
-        }
-        for (let comment of await ctx.database.get("comment", { bid: id })) {
-          for (let element of h.parse(comment.content)) {
-            if (["img", "audio", "video"].includes(element.type) && element.attrs.src.startsWith("file")) {
-              unlinkSync(fileURLToPath(element.attrs.src))
-            }
-          }
-        }
-        await ctx.database.remove('bottle', { id: id });
-        await ctx.database.remove('comment', { bid: id });
+        await ctx.driftbottle.remove(id, session);
         return '瓶子删除了！';
       });
 
     ctx.command('漂流瓶.删除评论 <bid:posint> <cid:posint>', '', {checkArgCount: true})
       .alias("删除评论")
       .example('删除评论 <瓶子编号> <评论编号>')
-      .action(async ({ session }, bid, cid) => {
-        const comment = (await ctx.database.get('comment', {bid: bid, cid: cid }))[0];
+      .option('cascade', '-c 连同所有回复一起删除')
+      .option('keep', '-k 保留回复，原评论显示为“[已删除]”')
+      .action(async ({ session, options }, bid, cid) => {
+        const comment = await ctx.driftbottle.getComment(bid, cid).catch(() => null);
         if (!comment)
           return '你要删除的评论不存在！';
-        if (!config.manager.includes(session.event.user.id) && session.event.user.id !== comment.uid)
+        if (session.event.user.id !== comment.uid && !await ctx.driftbottle.hasPermission(session, 'delete-comment'))
           return '你没有权限删除别人的评论！';
-        for (let element of h.parse(comment.content)) {
-          if (["img", "audio", "video"].includes(element.type) && element.attrs.src.startsWith("file")) {
-            unlinkSync(fileURLToPath(element.attrs.src))
+        const replies = await ctx.driftbottle.replies(bid, cid)
+        let mode: 'cascade' | 'placeholder' = options.cascade ? 'cascade' : 'placeholder'
+        if (replies.length > 0 && !options.cascade && !options.keep) {
+          await session.send(`这条评论有${replies.length}条回复，30秒内发送“全部”连同回复一起删除，发送“保留”只删除这条评论并保留回复`)
+          const reply = await session.prompt(30000)
+          if (reply === "全部") {
+            mode = 'cascade'
+          } else if (reply !== "保留") {
+            return "已取消删除"
           }
         }
-        await ctx.database.remove('comment', { bid: bid, cid: cid });
-        return '评论删除了！';
+        if (mode === 'cascade' && replies.some((reply) => reply.uid !== session.event.user.id) && !await ctx.driftbottle.hasPermission(session, 'delete-comment'))
+          return '你没有权限删除别人的回复！';
+        await ctx.driftbottle.removeComment(bid, cid, mode);
+        return mode === 'cascade' && replies.length > 0 ? `评论和${replies.length}条回复删除了！` : '评论删除了！';
       });
 
     ctx.command('漂流瓶.查看我的瓶子 [page:posint]', '')
@@ -1013,13 +716,9 @@ ${config.bottleLimit !== 0 ? `\n第${page ?? 1}/${Math.ceil(bottlesLength / conf
       .usage('查看我的瓶子 [分页]')
       .option('list', '-l 只输出瓶子编号，无分页')
       .action(async ({ session, options }, page) => {
-        const bottlesLength = (await ctx.database.get("bottle", {uid: session.event.user.id})).length
-        const bottles = await ctx.database
-          .select("bottle")
-          .where({ uid: session.event.user.id })
-          .limit(config.bottleLimit === 0 || options.list ? Infinity : config.bottleLimit)
-          .offset(config.bottleLimit === 0 || options.list ? 0 : ((page ?? 1) - 1) * config.bottleLimit)
-          .execute()
+        const query: DriftBottle.ListQuery = {uid: session.event.user.id, status: ["approved", "pending", "rejected"], includeHidden: true, includeSunk: true}
+        const bottlesLength = await ctx.driftbottle.count(query)
+        const bottles = await ctx.driftbottle.list(query, page ?? 1, options.list ? 0 : config.bottleLimit)
         if (!bottles || bottles.length < 1) return '你还没有扔过瓶子！';
         const chain = [];
         chain.push(`你扔出去的瓶子有：`);
@@ -1028,7 +727,7 @@ ${config.bottleLimit !== 0 ? `\n第${page ?? 1}/${Math.ceil(bottlesLength / conf
         } else {
           for (const bottle of bottles) {
             const { content, id, name } = bottle;
-            chain.push(`瓶子编号${id}${name ? `(${name})` : ""}：${content.includes("<audio") ? "[语音]" : content.includes("<video") ? "[视频]" : content}`);
+            chain.push(`瓶子编号${id}${name ? `(${name})` : ""}${statusText[bottle.status]}${bottle.hidden ? "[已被举报隐藏]" : ""}${bottle.sunk ? "[已沉底]" : ""}：${content.includes("<audio") ? "[语音]" : content.includes("<video") ? "[视频]" : content}`);
           }
           if (config.bottleLimit !== 0) chain.push(`\n第${page ?? 1}/${Math.ceil(bottlesLength / config.bottleLimit)}页`);
         }
@@ -1040,13 +739,9 @@ ${config.bottleLimit !== 0 ? `\n第${page ?? 1}/${Math.ceil(bottlesLength / conf
       .example('删除过期瓶子 <天数>')
       .action(async ({ session }, days) => {
         if (!days) return '请输入天数！';
-        if (!config.manager.includes(session.event.user.id)) return '你没有权限删除过期瓶子！';
-        const deleteDays = days;
-        const bottles = await ctx.database.get('bottle', { time: { $lt: Time.getDateNumber() - deleteDays } });
+        if (!await ctx.driftbottle.hasPermission(session, 'delete-expired')) return '你没有权限删除过期瓶子！';
+        const bottles = await ctx.driftbottle.removeExpired(days);
         if (!bottles || bottles.length < 1) return '没有过期的瓶子！';
-        await ctx.database.remove('bottle', { time: { $lt: Time.getDateNumber() - deleteDays } });
-        await ctx.database.remove('comment', { time: { $lt: Time.getDateNumber() - deleteDays } });
-        await ctx.database.remove('comment', { bid: { $in: bottles.map((bottle) => bottle.id) } });
         return '过期瓶子已经被删除！';
       });
 
@@ -1056,7 +751,7 @@ ${config.bottleLimit !== 0 ? `\n第${page ?? 1}/${Math.ceil(bottlesLength / conf
       .example('删除无效瓶子 1 10')
       .option("delay", "-d <value:number> 发送的间隔(ms)")
       .action(async ({ session, options }, start, end) => {
-        if (!config.manager.includes(session.event.user.id)) {
+        if (!await ctx.driftbottle.hasPermission(session, 'delete-invalid')) {
           return '你没有权限删除无效瓶子！';
         } else if (start && end === undefined) {
           return '请输入结束编号！';
@@ -1071,7 +766,6 @@ ${config.bottleLimit !== 0 ? `\n第${page ?? 1}/${Math.ceil(bottlesLength / conf
         let brokenBottle = []
         let bottles = await ctx.database.get('bottle', { id: start ? { $gte: start, $lte: end } : {} });
         for (let bottle of bottles) {
-          let retry = 0
           const {content, id, uid, username, time} = bottle;
           const chain = [];
 
@@ -1090,29 +784,19 @@ ${config.bottleLimit !== 0 ? `\n第${page ?? 1}/${Math.ceil(bottlesLength / conf
           let result = ""
           result += chain[0].text + '\n\n' + `${chain[1].username}：\n${chain[1].text}\n${bottleTimeStr}`;
 
-          while (true) {            
-            try {
+          try {
+            await ctx.driftbottle.delivery.run(`${id}号漂流瓶发送`, async () => {
               await session.bot.sendMessage(session.event.channel.id, result);
-              try {
-                await ctx.sleep(options.delay)
-              } catch {
-                return
-              }
-              break
-            } catch (e) {
-              retry++
-              if (retry > config.maxRetry) {
-                brokenBottle.push(id)
-                await session.send(`${ id }号漂流瓶无法发送`)
-                break
-              }
-              try {
-                await ctx.sleep(config.retryInterval)
-              } catch {
-                return
-              }
-              continue
-            }
+            })
+          } catch {
+            brokenBottle.push(id)
+            await session.send(`${ id }号漂流瓶无法发送`)
+            continue
+          }
+          try {
+            await ctx.sleep(options.delay)
+          } catch {
+            return
           }
         }
 
@@ -1123,7 +807,9 @@ ${config.bottleLimit !== 0 ? `\n第${page ?? 1}/${Math.ceil(bottlesLength / conf
         await session.send(result)
         let reply = await session.prompt(30000)
         if (reply === "删除") {
-          await ctx.database.remove("bottle", { id: { $in: brokenBottle } })
+          for (let id of brokenBottle) {
+            await ctx.driftbottle.remove(id, session).catch(() => {})
+          }
           let logger = new Logger("re-driftbottle")
           logger.info(`已删除${result += brokenBottle.join(", ")}号漂流瓶`)
           return "已删除以上漂流瓶"
@@ -1138,7 +824,7 @@ ${config.bottleLimit !== 0 ? `\n第${page ?? 1}/${Math.ceil(bottlesLength / conf
       .example('删除无效评论 1 10')
       .option("delay", "-d <value:number> 发送的间隔(ms)")
       .action(async ({ session, options }, start, end) => {
-        if (!config.manager.includes(session.event.user.id)) {
+        if (!await ctx.driftbottle.hasPermission(session, 'delete-invalid')) {
           return '你没有权限删除无效评论！';
         } else if (start && end === undefined) {
           return '请输入结束编号！';
@@ -1151,37 +837,24 @@ ${config.bottleLimit !== 0 ? `\n第${page ?? 1}/${Math.ceil(bottlesLength / conf
         if (confirm !== '是') return "已取消操作"
         await session.send("正在检测...")
         let brokenComment = new Map()
-        let brokenCommentId = []
         let bottles = await ctx.database.get('bottle', { id: start ? { $gte: start, $lte: end } : {} });
         for (let bottle of bottles) {
           let comments = await ctx.database.get('comment', { bid: bottle.id });
           for (const comment of comments) {
-            const { username: commentName, content: commentContent, uid: commentUid, cid: commentId, id: id } = comment;
-            let retry = 0
-            while (true) {            
-              try {
+            const { username: commentName, content: commentContent, uid: commentUid, cid: commentId } = comment;
+            try {
+              await ctx.driftbottle.delivery.run(`${bottle.id}号漂流瓶中的${commentId}号评论发送`, async () => {
                 await session.bot.sendMessage(session.event.channel.id, commentId + "." + commentName + "：" + commentContent + "\n");
-                try {
-                  await ctx.sleep(options.delay)
-                } catch {
-                  return
-                }
-                break
-              } catch (e) {
-                retry++
-                if (retry > config.maxRetry) {
-                  brokenComment.set(bottle.id, brokenComment.has(bottle.id) ? [...brokenComment.get(bottle.id), commentId] : [commentId])
-                  brokenCommentId.push(id)
-                  await session.send(`${ bottle.id }号漂流瓶中的${ commentId }号评论无法发送`)
-                  break
-                }
-                try {
-                  await ctx.sleep(config.retryInterval)
-                } catch {
-                  return
-                }
-                continue
-              }
+              })
+            } catch {
+              brokenComment.set(bottle.id, brokenComment.has(bottle.id) ? [...brokenComment.get(bottle.id), commentId] : [commentId])
+              await session.send(`${ bottle.id }号漂流瓶中的${ commentId }号评论无法发送`)
+              continue
+            }
+            try {
+              await ctx.sleep(options.delay)
+            } catch {
+              return
             }
           }          
         }
@@ -1195,7 +868,12 @@ ${config.bottleLimit !== 0 ? `\n第${page ?? 1}/${Math.ceil(bottlesLength / conf
         await session.send(result)
         let reply = await session.prompt(30000)
         if (reply === "删除") {
-          await ctx.database.remove("comment", { id: { $in: brokenCommentId } })
+          for (let [bid, cids] of brokenComment) {
+            for (let cid of cids) {
+              // 占位评论的回复都被删除后占位评论会一起删除，这时已经找不到了
+              await ctx.driftbottle.removeComment(bid, cid).catch(() => {})
+            }
+          }
           return "已删除以上评论"
         } else {
           return "已取消删除"
@@ -1207,16 +885,12 @@ ${config.bottleLimit !== 0 ? `\n第${page ?? 1}/${Math.ceil(bottlesLength / conf
       .option('list', '-l 只输出瓶子编号，无分页')
       .example("漂流瓶.查看用户瓶子 @Koishi 2")
       .action(async ({ session, options }, user, page) => {
-        if (config.manager.includes(session.event.user.id)) {
+        if (await ctx.driftbottle.hasPermission(session, 'view-user')) {
           const id = /\d+/.exec(user)?.[0]
           if (id) {
-            const bottlesLength = (await ctx.database.get("bottle", {uid: id})).length
-            const bottles = await ctx.database
-              .select("bottle")
-              .where({ uid: id })
-              .limit(config.bottleLimit === 0 || options.list ? Infinity : config.bottleLimit)
-              .offset(config.bottleLimit === 0 || options.list ? 0 : ((page ?? 1) - 1) * config.bottleLimit)
-              .execute()
+            const query: DriftBottle.ListQuery = {uid: id, status: ["approved", "pending", "rejected"], includeHidden: true, includeSunk: true}
+            const bottlesLength = await ctx.driftbottle.count(query)
+            const bottles = await ctx.driftbottle.list(query, page ?? 1, options.list ? 0 : config.bottleLimit)
             if (!bottles || bottles.length < 1) return '该用户还没有扔过瓶子！';
             const chain = [];
             chain.push(`该用户扔出去的瓶子有：`);
@@ -1225,7 +899,7 @@ ${config.bottleLimit !== 0 ? `\n第${page ?? 1}/${Math.ceil(bottlesLength / conf
             } else {
               for (const bottle of bottles) {
                 const { content, id, name } = bottle;
-                chain.push(`瓶子编号${id}${name ? `(${name})` : ""}：${content.includes("<audio") ? "[语音]" : content.includes("<video") ? "[视频]" : content}`);
+                chain.push(`瓶子编号${id}${name ? `(${name})` : ""}${statusText[bottle.status]}${bottle.hidden ? "[已被举报隐藏]" : ""}${bottle.sunk ? "[已沉底]" : ""}：${content.includes("<audio") ? "[语音]" : content.includes("<video") ? "[视频]" : content}`);
               }
               if (config.bottleLimit !== 0) chain.push(`\n第${page ?? 1}/${Math.ceil(bottlesLength / config.bottleLimit)}页`);
             }
@@ -1240,9 +914,9 @@ ${config.bottleLimit !== 0 ? `\n第${page ?? 1}/${Math.ceil(bottlesLength / conf
       })
 
     ctx.middleware(async (session, next) => {
-      if (session?.quote?.user?.id !== session.selfId) {
-        return next()
-      } else if (!bottleMap.has(session?.quote?.id)) {
+      if (session?.quote?.user?.id !== session.selfId) return next()
+      const link = await ctx.driftbottle.resolveMessage(session.platform, session.channelId, session.quote.id)
+      if (!link) {
         return next()
       } else {
         const messageId = await session.send("30秒内发送“取消”以取消评论瓶子")
@@ -1254,7 +928,7 @@ ${config.bottleLimit !== 0 ? `\n第${page ?? 1}/${Math.ceil(bottlesLength / conf
             return element
           }
         })
-        await session.execute(`漂流瓶.评论瓶子 ${bottleMap.get(session?.quote?.id)} ${session.content}`)
+        await session.execute(`漂流瓶.评论瓶子 ${link.cid ? `-r ${link.cid} ` : ""}${link.bid} ${session.content}`)
         try {
           await session.bot.deleteMessage(session.channelId, messageId[0])
         } catch {
@@ -1263,251 +937,173 @@ ${config.bottleLimit !== 0 ? `\n第${page ?? 1}/${Math.ceil(bottlesLength / conf
       }
     })
 
-    ctx.command("漂流瓶.本地储存化静态资源", "将漂流瓶中的静态网络资源储存至本地")
-      .alias("本地储存化静态资源")
-      .action(async ({session}) => {
-        if (!config.manager.includes(session.event.user.id)) {
+    ctx.command("漂流瓶.迁移静态资源 <mode:string>", "将漂流瓶和评论中的静态资源迁移到另一种储存方式")
+      .alias("迁移静态资源")
+      .alias("本地储存化静态资源", { args: ["file"] })
+      .alias("b64化静态资源", { args: ["base64"] })
+      .usage("可选的储存方式：base64、file、s3、assets")
+      .example("迁移静态资源 s3")
+      .action(async ({session}, mode) => {
+        if (!await ctx.driftbottle.hasPermission(session, 'migrate-storage')) {
           return '你没有权限！';
         }
+        if (!Object.hasOwn(storageText, mode)) return "请输入正确的储存方式：base64、file、s3、assets"
+        if (mode === "assets" && !ctx.get("assets")) return "assets 服务未启用！"
 
-        await session.send("警告：这个功能会将所有漂流瓶的静态资源改为本地储存且无法复原成URL，如果你确定要这么做，请在30秒内发送“是”")
+        await session.send(`警告：这个功能会将所有漂流瓶的静态资源迁移为${storageText[mode]}且无法复原成URL，如果你确定要这么做，请在30秒内发送“是”`)
         let confirm = await session.prompt(30000);
         if (confirm !== '是') return "已取消操作"
 
-        session.send("正在写入至本地...")
-
-        let bottles = await ctx.database.get("bottle", {})
-
-        let bottleCount = 0
-        let bottleFatal = []
-        for (let bottle of bottles) {
-          try {
-            let flag = false
-            let elements = h.parse(bottle.content)
-
-            elements = await Promise.all(elements.map(async (element, index) => {
-              if (["img", "audio", "video"].includes(element.type) && !element.attrs.src.startsWith("file")) {
-                flag = true
-                if (element.attrs.src.startsWith("data:")) {
-                  let matches = element.attrs.src.match(/^data:(.+?);base64,(.*)$/)
-                  let mimeType = matches[1]
-                  let base64 = matches[2]
-                  let ext = mime.extension(mimeType)
-                  let buffer = Buffer.from(base64, "base64")
-                  let path = resolve(config.path, `bottle-${bottle.id}-${index}.${ext}`)
-                  writeFileSync(path, buffer)
-                  element.attrs.src = pathToFileURL(path).href
-                } else {
-                  let response = await ctx.http("get", element.attrs.src, {responseType: "stream"})
-                  let responseStream = Readable.from(response.data)
-                  let ext = mime.extension(response.headers.get("content-type"))
-                  let path = resolve(config.path, `bottle-${bottle.id}-${index}.${ext}`)
-                  let writer = createWriteStream(path)
-                  await pipelineAsync(responseStream, writer)
-                  element.attrs.src = pathToFileURL(path).href
-                }
-                bottleCount++
-              }
-              return element
-            }))
-
-            if (flag) {
-              await ctx.database.set("bottle", {id: bottle.id}, {
-                content: elements.join("")
-              })
-            }
-          } catch (e) {
-            bottleFatal.push(bottle.id)
-            ctx.logger("re-driftbottle").warn(`${bottle.id}号漂流瓶本地储存化失败：${config.debugMode ? e.stack : e.name + ": " + e.message}`)
-          }
-          
-        }
+        session.send("正在迁移静态资源...")
 
-        let comments = await ctx.database.get("comment", {})
-
-        let commentCount = 0
-        let commentFatal = []
-        for (let comment of comments) {
-          try {
-            let flag = false
-            let elements = h.parse(comment.content)
-
-            elements = await Promise.all(elements.map(async (element, index) => {
-              if (["img", "audio", "video"].includes(element.type) && !element.attrs.src.startsWith("file")) {
-                flag = true
-                if (element.attrs.src.startsWith("data:")) {
-                  let [mimeType, base64] = element.attrs.src.match(/^data:(.+?);base64,(.*)$/)
-                  let ext = mime.extension(mimeType)
-                  let buffer = Buffer.from(base64, "base64")
-                  let path = resolve(config.path, `bottle-${comment.id}-${index}.${ext}`)
-                  writeFileSync(path, buffer)
-                  element.attrs.src = pathToFileURL(path).href
-                } else {
-                  let response = await ctx.http("get", element.attrs.src, {responseType: "stream"})
-                  let responseStream = Readable.from(response.data)
-                  let ext = mime.extension(response.headers.get("content-type"))
-                  let path = resolve(config.path, `bottle-${comment.id}-${index}.${ext}`)
-                  let writer = createWriteStream(path)
-                  await pipelineAsync(responseStream, writer)
-                  element.attrs.src = pathToFileURL(path).href
-                }
-                commentCount++
-              }
-              return element
-            }))
+        let result = await ctx.driftbottle.media.migrate(mode as StorageMode | 'base64')
 
-            if (flag) {
-              await ctx.database.set("comment", {id: comment.id}, {
-                content: elements.join("")
-              })
-            }
-          } catch (e) {
-            commentFatal.push(comment.id)
-            ctx.logger("re-driftbottle").warn(`${comment.bid}中的${comment.cid}号评论本地储存化失败：${config.debugMode ? e.stack : e.message}`)
-          }
-
-        }
-
-        return `本地储存完成，共储存${bottleCount + commentCount}个静态资源
-${bottleFatal.length > 0 ? `id为 ${bottleFatal.join(", ")} 的漂流瓶储存失败` : ""}
-${commentFatal.length > 0 ? `id为 ${commentFatal.join(", ")} 的评论储存失败` : ""}
-${bottleFatal.length > 0 || commentFatal.length > 0 ? `请查看日志！` : ""}`
-        
+        return `迁移完成，共迁移${result.count}个静态资源
+${result.bottles.length > 0 ? `id为 ${result.bottles.join(", ")} 的漂流瓶迁移失败` : ""}
+${result.comments.length > 0 ? `id为 ${result.comments.join(", ")} 的评论迁移失败` : ""}
+${result.bottles.length > 0 || result.comments.length > 0 ? `请查看日志！` : ""}`
       })
 
-    ctx.command("漂流瓶.b64化静态资源", "将漂流瓶中的静态网络资源储存为base64编码")
-      .alias("b64化静态资源")
+    ctx.command("漂流瓶.清理静态资源", "删除没有被任何瓶子或评论引用的静态资源文件")
+      .alias("清理静态资源")
       .action(async ({session}) => {
-        if (!config.manager.includes(session.event.user.id)) {
+        if (!await ctx.driftbottle.hasPermission(session, 'migrate-storage')) {
           return '你没有权限！';
         }
 
-        await session.send("警告：这个功能会将所有漂流瓶的静态资源储存为base64编码且无法复原成URL，如果你确定要这么做，请在30秒内发送“是”")
+        await session.send(`警告：这个功能会删除储存后端和 ${config.path} 中所有没有被引用的文件，如果你确定要这么做，请在30秒内发送“是”`)
         let confirm = await session.prompt(30000);
         if (confirm !== '是') return "已取消操作"
 
-        session.send("正在编码为base64...")
-
-        let bottles = await ctx.database.get("bottle", {})
+        let removed = await ctx.driftbottle.media.gc()
+        if (removed.length > 0) {
+          ctx.logger("re-driftbottle").info(`已清理静态资源：${removed.join(", ")}`)
+        }
+        return `清理完成，共删除${removed.length}个文件`
+      })
 
-        let bottleCount = 0
-        let bottleFatal = []
-        for (let bottle of bottles) {
-          try {
-            let flag = false
-            let elements = h.parse(bottle.content)
-
-            elements = await Promise.all(elements.map(async (element, index) => {
-              if (["img", "audio", "video"].includes(element.type) && !element.attrs.src.startsWith("data")) {
-                flag = true
-                if (element.attrs.src.startsWith("file")) {
-                  let path = fileURLToPath(element.attrs.src)
-                  let base64 = readFileSync(path, {encoding: "base64"})
-                  let mimeType = mime.lookup(path)
-                  element.attrs.src = `data:${mimeType};base64,${base64}`
-                } else {
-                  let response = await ctx.http("get", element.attrs.src, {responseType: "arraybuffer"})
-                  let base64 = Buffer.from(response.data).toString("base64")
-                  let mimeType = response.headers.get("content-type")
-                  element.attrs.src = `data:${mimeType};base64,${base64}`
-                }
-                bottleCount++
-              }
-              return element
-            }))
+    ctx.command("漂流瓶.迁移状态", "查看数据迁移的进度")
+      .alias("迁移状态")
+      .option("retry", "-r 重新执行失败的迁移")
+      .action(async ({session, options}) => {
+        if (!await ctx.driftbottle.hasPermission(session, 'migrate-storage')) {
+          return '你没有权限！';
+        }
 
-            if (flag) {
-              await ctx.database.set("bottle", {id: bottle.id}, {
-                content: elements.join("")
-              })
-            }
-          } catch (e) {
-            bottleFatal.push(bottle.id)
-            ctx.logger("re-driftbottle").warn(`${bottle.id}号漂流瓶本地储存化失败：${config.debugMode ? e.stack : e.name + ": " + e.message}`)
-          }
-          
+        let status = await ctx.driftbottle.migrator.status()
+        if (options.retry && !status.running && status.error) {
+          ctx.driftbottle.migrator.run().catch((e) => {
+            ctx.logger("re-driftbottle").warn(`数据迁移失败：${config.debugMode ? e.stack : e.name + ": " + e.message}`)
+          })
+          return "已重新开始数据迁移"
+        }
+        let chain = [`当前数据版本：${status.version}/${status.latest}${status.running ? "（正在迁移）" : ""}`]
+        if (status.pending.length > 0) {
+          chain.push("未完成的迁移：")
+          chain.push(...status.pending.map((migration) => `${migration.version}. ${migration.description}`))
         }
+        if (status.error) chain.push(`上次迁移失败：${status.error}\n发送“迁移状态 -r”重新执行`)
+        return chain.join("\n")
+      })
 
-        let comments = await ctx.database.get("comment", {})
+    ctx.command("漂流瓶.导出存档", "将所有瓶子、评论和本地静态资源导出为存档文件")
+      .alias("导出漂流瓶")
+      .action(async ({session}) => {
+        if (!await ctx.driftbottle.hasPermission(session, 'archive')) {
+          return '你没有权限！';
+        }
 
-        let commentCount = 0
-        let commentFatal = []
-        for (let comment of comments) {
-          try {
-            let flag = false
-            let elements = h.parse(comment.content)
-
-            elements = await Promise.all(elements.map(async (element, index) => {
-              if (["img", "audio", "video"].includes(element.type) && !element.attrs.src.startsWith("data")) {
-                flag = true
-                if (element.attrs.src.startsWith("file")) {
-                  let path = fileURLToPath(element.attrs.src)
-                  let base64 = readFileSync(path, {encoding: "base64"})
-                  let mimeType = mime.lookup(path)
-                  element.attrs.src = `data:${mimeType};base64,${base64}`
-                } else {
-                  let response = await ctx.http("get", element.attrs.src, {responseType: "arraybuffer"})
-                  let base64 = Buffer.from(response.data).toString("base64")
-                  let mimeType = response.headers.get("content-type")
-                  element.attrs.src = `data:${mimeType};base64,${base64}`
-                }
-                commentCount++
-              }
-              return element
-            }))
+        session.send("正在导出...")
+        let result = await ctx.driftbottle.archive.export()
+        return `导出完成，共导出${result.bottles}个瓶子、${result.comments}条评论和${result.media}个静态资源\n存档已保存到 ${result.path}`
+      })
 
-            if (flag) {
-              await ctx.database.set("comment", {id: comment.id}, {
-                content: elements.join("")
-              })
-            }
-          } catch (e) {
-            commentFatal.push(comment.id)
-            ctx.logger("re-driftbottle").warn(`${comment.bid}中的${comment.cid}号评论本地储存化失败：${config.debugMode ? e.stack : e.message}`)
-          }
+    ctx.command("漂流瓶.导入存档 <path:string>", "从存档文件导入瓶子和评论，瓶子会被分配新的编号")
+      .alias("导入漂流瓶")
+      .usage("path 为存档文件的路径，相对路径以 Koishi 的根目录为基准\n也可以导入原版 driftbottle 插件的 bottle 和 comment 表数据（格式为 {\"bottle\": [...], \"comment\": [...]}）")
+      .option("replace", "-r 删除现有的所有瓶子后再导入")
+      .example("导入漂流瓶 data/re-driftbottle/driftbottle-2024-01-01T00-00-00-000Z.json")
+      .action(async ({session, options}, path) => {
+        if (!await ctx.driftbottle.hasPermission(session, 'archive')) {
+          return '你没有权限！';
+        }
+        path = resolve(ctx.baseDir, path)
+        if (!existsSync(path)) return "存档文件不存在！"
 
+        if (options.replace) {
+          await session.send(`警告：这个功能会删除现有的所有瓶子和评论，如果你确定要这么做，请在30秒内发送“是”`)
+          let confirm = await session.prompt(30000);
+          if (confirm !== '是') return "已取消操作"
         }
 
-        return `base64编码完成，共储存${bottleCount + commentCount}个静态资源
-${bottleFatal.length > 0 ? `id为 ${bottleFatal.join(", ")} 的漂流瓶储存失败` : ""}
-${commentFatal.length > 0 ? `id为 ${commentFatal.join(", ")} 的评论储存失败` : ""}
-${bottleFatal.length > 0 || commentFatal.length > 0 ? `请查看日志！` : ""}`
-        
+        session.send("正在导入...")
+        let result: ImportResult
+        try {
+          result = await ctx.driftbottle.archive.import(path, options.replace ? "replace" : "merge")
+        } catch (e) {
+          ctx.logger("re-driftbottle").warn(e)
+          return `导入失败：${e.message}`
+        }
+        return `导入完成，共导入${result.bottles}个瓶子、${result.comments}条评论和${result.media}个静态资源${result.failed.length > 0 ? `\n存档中id为 ${result.failed.join(", ")} 的漂流瓶导入失败，请查看日志！` : ""}`
       })
 
     ctx.command("漂流瓶.命名瓶子 <id:posint> <name:string>")
       .alias("命名瓶子")
       .action(async ({session}, id, name) => {
-        let bottle = await ctx.database.get("bottle", {id})
+        let bottle = await ctx.driftbottle.get(id).catch(() => null)
 
-        if (bottle.length == 0) {
+        if (!bottle) {
           return "没有这个瓶子！"
-        } else if (bottle[0].uid !== session.userId && !config.manager.includes(session.userId)) {
+        } else if (bottle.uid !== session.userId && !await ctx.driftbottle.hasPermission(session, 'rename-others')) {
           return "只有漂流瓶管理员才能命名别人的瓶子！"
         } else if (!isNaN(+name)) {
           return "名字不能是纯数字！"
         }
 
-        await ctx.database.set("bottle", {id}, {name})
-        return `命名成功！`
+        try {
+          await ctx.driftbottle.rename(id, name)
+        } catch (e) {
+          if (e instanceof DriftBottleError) return e.message
+          throw e
+        }
+        return (await ctx.driftbottle.get(id)).status === "pending" ? "命名成功，瓶子已送入审核队列！" : `命名成功！`
+      })
+
+    ctx.command("漂流瓶.设置标签 <id:posint> [tags:text]", "修改瓶子的标签，不填标签则清空", {checkArgCount: true})
+      .alias("设置标签")
+      .usage("多个标签用逗号或空格分隔")
+      .example("设置标签 12 提问 心情")
+      .action(async ({session}, id, tags) => {
+        let bottle = await ctx.driftbottle.get(id).catch(() => null)
+
+        if (!bottle) {
+          return "没有这个瓶子！"
+        } else if (bottle.uid !== session.userId && !await ctx.driftbottle.hasPermission(session, 'tag-others')) {
+          return "只有漂流瓶管理员才能修改别人瓶子的标签！"
+        }
+
+        let result: string[]
+        try {
+          result = await ctx.driftbottle.setTags(id, parseTags(tags))
+        } catch (e) {
+          if (e instanceof DriftBottleError) return e.message
+          throw e
+        }
+        return result.length ? `标签已设置为：${result.map((tag) => "#" + tag).join(" ")}` : "已清空标签！"
       })
 
     ctx.command("漂流瓶.瓶子黄页 [page:posint]")
       .alias("瓶子黄页")
       .action(async ({session}, page) => {
-        let bottlesLength = (await ctx.database.get("bottle", {})).length
-        let bottles = await ctx.database
-          .select('bottle')
-          .where({})
-          .orderBy('id', 'asc')
-          .limit(config.indexLimit !== 0 ? config.indexLimit : Infinity)
-          .offset(config.indexLimit !== 0 ? ((page ?? 1) - 1) * config.indexLimit : 0)
-          .execute()
+        let bottlesLength = await ctx.driftbottle.count()
+        let bottles = await ctx.driftbottle.list({}, page ?? 1, config.indexLimit)
+        let tagCounts = Object.entries(await ctx.driftbottle.tagCounts())
+        let tagText = tagCounts.length ? `标签：${tagCounts.map(([tag, count]) => `#${tag}(${count})`).join(" ")}\n发送“捞漂流瓶 -T <标签>”可以捞指定标签的瓶子\n` : ""
 
         if (config.indexToImage) {
           if (!ctx.puppeteer) {
             ctx.logger("re-driftbottle").warn("puppeteer 未加载")
-            return `使用“漂流瓶.瓶子黄页 分页”切换分页\n编号：标题\n${bottles.map((bottle) => `${bottle.id}${bottle.name ? ` (${bottle.name})` : ""}`).join("\n")}
+            return `${tagText}使用“漂流瓶.瓶子黄页 分页”切换分页\n编号：标题\n${bottles.map((bottle) => `${bottle.id}${bottle.name ? ` (${bottle.name})` : ""}`).join("\n")}
 \n第${page ?? 1}/${Math.ceil(bottlesLength / config.indexLimit)}页`
           }
 
@@ -1565,6 +1161,7 @@ ${bottleFatal.length > 0 || commentFatal.length > 0 ? `请查看日志！` : ""}
               </head>
             
               <body style="height: fit-content;">
+                ${tagCounts.length ? `<p align="center" style="margin: 5px;">${tagCounts.map(([tag, count]) => `#${h.escape(tag)}(${count})`).join(" ")}</p>` : ""}
                 <table>
                   <tbody align="center" valign="center">
                     <tr>
@@ -1600,7 +1197,7 @@ ${bottleFatal.length > 0 || commentFatal.length > 0 ? `请查看日志！` : ""}
             </html>`
             )
         } else {
-          return `使用“漂流瓶.瓶子黄页 分页”切换分页\n编号：标题\n${bottles.map((bottle) => `${bottle.id}${bottle.name ? ` (${bottle.name})` : ""}`).join("\n")}
+          return `${tagText}使用“漂流瓶.瓶子黄页 分页”切换分页\n编号：标题\n${bottles.map((bottle) => `${bottle.id}${bottle.name ? ` (${bottle.name})` : ""}`).join("\n")}
 \n第${page ?? 1}/${Math.ceil(bottlesLength / config.indexLimit)}页`
         }
       })
@@ -1608,66 +1205,343 @@ ${bottleFatal.length > 0 || commentFatal.length > 0 ? `请查看日志！` : ""}
     ctx.command("漂流瓶.精选瓶子 [page:posint]")
       .alias("精选瓶子")
       .action(async ({session}, page) => {
-        let bottlesLength = (await ctx.database.get("bottle", {$or: [{isHot: 1}, {commentCount: {$gte: config.hotThresholdValue}}]})).length
+        let bottlesLength = await ctx.driftbottle.count({hot: true})
 
-        let bottles = await ctx.database
-          .select('bottle')
-          .where({$or: [{isHot: 1}, {commentCount: {$gte: config.hotThresholdValue}}]})
-          .orderBy('id', 'asc')
-          .limit(config.hotBottleLimit !== 0 ? config.hotBottleLimit : Infinity)
-          .offset(config.hotBottleLimit !== 0 ? ((page ?? 1) - 1) * config.hotBottleLimit : 0)
-          .execute()
+        let bottles = await ctx.driftbottle.list({hot: true}, page ?? 1, config.hotBottleLimit)
 
-        return `使用“漂流瓶.精选瓶子 分页”切换分页\n编号：标题\n${bottles.map((bottle) => `${bottle.id} (${bottle.isHot ? "管理员精选" : `评论数 ${bottle.commentCount}`})：${bottle.name}`).join("\n")}
+        return `使用“漂流瓶.精选瓶子 分页”切换分页\n编号：标题\n${bottles.map((bottle) => `${bottle.id} (${bottle.isHot ? "管理员精选" : `热度 ${+bottle.score.toFixed(2)}`})：${bottle.name}`).join("\n")}
 \n第${page ?? 1}/${Math.ceil(bottlesLength / config.hotBottleLimit)}页`
       })
 
     ctx.command("漂流瓶.设置精选瓶子 <id:posint>")
       .alias("设置精选瓶子")
       .action(async ({session}, id) => {
-        let bottle = await ctx.database.get("bottle", {id})
+        let bottle = await ctx.driftbottle.get(id).catch(() => null)
 
-        if (bottle.length == 0) {
+        if (!bottle) {
           return "没有这个瓶子！"
-        } else if (!config.manager.includes(session.userId)) {
+        } else if (!await ctx.driftbottle.hasPermission(session, 'feature')) {
           return "只有漂流瓶管理员才能设置精选瓶子！"
         }
 
-        await ctx.database.set("bottle", {id}, {isHot: 1})
+        await ctx.driftbottle.feature(id, session)
         return `设置成功！`
       })
 
-}    
-
-async function extendTables(ctx) {
-  await ctx.model.extend('bottle', {
-    id: 'unsigned',
-    name: 'string',
-    uid: 'string',
-    gid: 'string',
-    cnid: 'string',
-    username: 'string',
-    content: 'text',
-    isHot: 'unsigned',
-    commentCount: {
-      type: 'integer',
-      length: 16,
-      initial: -1,
-      nullable: true
-    },
-    time: 'unsigned',
-  }, {primary: "id", autoInc: true});
-
-  await ctx.model.extend('comment', {
-    id: 'unsigned',
-    cid: 'unsigned',
-    bid: 'unsigned',
-    uid: 'string',
-    gid: 'string',
-    cnid: 'string',
-    username: 'string',
-    content: 'text',
-    time: 'unsigned',
-  }, {primary: "id", autoInc: true});
-  
+    ctx.command("漂流瓶.提醒设置 [mode:string]", "设置收到评论、回复等提醒的方式，不填则查看当前设置")
+      .alias("漂流瓶提醒")
+      .usage("可选的提醒方式：频道（在原频道 @ 你）、私聊、每日汇总、每周汇总、免打扰\n选择汇总时，瓶子的新评论不再单独提醒，而是在每天或每周固定的时间私聊发送汇总")
+      .example("漂流瓶提醒 私聊")
+      .action(async ({session}, mode) => {
+        const current = await ctx.driftbottle.notifications.getMode(session.platform, session.userId)
+        if (!mode) return `当前的提醒方式：${notifyModeText[current]}\n可选的提醒方式：${Object.values(notifyModeText).join("、")}`
+        const target = (Object.keys(notifyModeText) as NotifyMode[]).find((key) => key === mode || notifyModeText[key] === mode)
+        if (!target) return `请输入正确的提醒方式：${Object.values(notifyModeText).join("、")}`
+        await ctx.driftbottle.notifications.setMode(session.platform, session.userId, target)
+        return `提醒方式已设置为：${notifyModeText[target]}`
+      })
+
+    ctx.command("漂流瓶.随机发送 [status:string]", "设置当前频道是否接收随机漂流瓶，不填则查看当前设置")
+      .alias("随机发送")
+      .option("interval", "-i <minutes:natural> 两次发送之间至少间隔的分钟数，0为不限制")
+      .option("quiet", "-q <hours:string> 免打扰时段，如 23-8 表示23点到第二天8点，0-0为取消")
+      .option("platform", "-P 设置当前平台的默认方式：开启为发送到所有群聊，关闭为只发送到开启了的频道")
+      .usage("随机发送 开启/关闭")
+      .example("随机发送 开启 -i 60 -q 23-8")
+      .action(async ({session, options}, status) => {
+        if (!session.guildId) return "请在群聊中使用！"
+        if (!await ctx.driftbottle.hasPermission(session, 'random-send')) {
+          return '你没有权限！';
+        }
+
+        let enabled: number
+        if (status) {
+          if (["开启", "on"].includes(status)) enabled = 1
+          else if (["关闭", "off"].includes(status)) enabled = 0
+          else return "请输入“开启”或“关闭”！"
+        }
+        let mode = await ctx.driftbottle.scheduler.getMode(session.platform)
+        if (options.platform) {
+          if (enabled !== undefined) {
+            mode = enabled ? "opt-out" : "opt-in"
+            await ctx.driftbottle.scheduler.setMode(session.platform, mode)
+          }
+          return mode === "opt-out" ? "当前平台会发送到机器人所在的所有群聊，关闭了的频道除外" : "当前平台只会发送到开启了随机发送的频道"
+        }
+
+        let setting = await ctx.driftbottle.scheduler.getChannel(session.platform, session.channelId)
+        let update: Partial<ChannelSetting> = {}
+        if (enabled !== undefined) update.enabled = enabled
+        if (options.interval !== undefined) update.interval = options.interval
+        if (options.quiet !== undefined) {
+          let [, start, end] = options.quiet.match(/^(\d{1,2})-(\d{1,2})$/) ?? []
+          if (!start || +start > 23 || +end > 23) return "请输入正确的免打扰时段，如 23-8！"
+          update.quietStart = +start
+          update.quietEnd = +end
+        }
+
+        if (Object.keys(update).length > 0) {
+          setting = {
+            enabled: mode === "opt-out" ? 1 : 0,
+            interval: 0,
+            quietStart: 0,
+            quietEnd: 0,
+            ...setting,
+            ...update,
+            platform: session.platform,
+            guildId: session.guildId,
+            channelId: session.channelId,
+          }
+          await ctx.driftbottle.scheduler.setChannel(session.platform, session.channelId, setting)
+        }
+
+        let chain = [`当前频道${(setting ? setting.enabled : mode === "opt-out") ? "已开启" : "未开启"}随机漂流瓶`]
+        if (setting?.interval) chain.push(`两次发送至少间隔${setting.interval}分钟`)
+        if (setting && setting.quietStart !== setting.quietEnd) chain.push(`免打扰时段：${setting.quietStart}点到${setting.quietEnd}点`)
+        if (!config.randomSend) chain.push("（插件没有启用随机发送，设置暂时不会生效）")
+        return chain.join("\n")
+      })
+
+    ctx.command("漂流瓶.点赞 <bid:posint> [cid:natural]", "给瓶子或评论点赞，再次点赞则取消", {checkArgCount: true})
+      .alias("点赞")
+      .usage("评论编号不填或填0则给瓶子本身点赞")
+      .option("emoji", "-e <emoji:string> 用表情回应，而不是点赞")
+      .example("点赞 12 3")
+      .action(async ({session, options}, bid, cid) => {
+        let reaction = options.emoji ?? "like"
+        let result: Reaction
+        try {
+          result = await ctx.driftbottle.react(bid, cid ?? 0, {platform: session.platform, uid: session.userId}, reaction, session)
+        } catch (e) {
+          if (e instanceof DriftBottleError) return e.message
+          throw e
+        }
+        if (!result) return "已取消！"
+        return reaction === "like" ? "点赞成功！" : `已用 ${reaction} 回应！`
+      })
+
+    ctx.command("漂流瓶.排行榜 [type:string]", "查看点赞、评论或被捞次数最多的瓶子")
+      .alias("排行榜")
+      .usage("类型可以是 点赞、评论 或 被捞（默认为点赞），时间范围可以是 day、week 或 all（默认为all）")
+      .option("period", "-p <period:string> 时间范围")
+      .example("排行榜 评论 -p week")
+      .action(async ({options}, type) => {
+        const rankingType = (Object.keys(rankingText) as RankingType[]).find((key) => key === type || rankingText[key] === type) ?? (type ? undefined : "likes")
+        if (!rankingType) return "排行榜类型只能是 点赞、评论 或 被捞！"
+        const period = (Object.keys(periodText) as RankingPeriod[]).find((key) => key === (options.period ?? "all") || periodText[key] === options.period)
+        if (!period) return "时间范围只能是 day、week 或 all！"
+        const ranking = await ctx.driftbottle.ranking(rankingType, period)
+        if (ranking.length === 0) return "还没有上榜的瓶子！"
+        return `${periodText[period]}${rankingText[rankingType]}排行榜（编号：标题）\n${ranking.map(({bottle, count}, index) => `${index + 1}. ${bottle.id}：${bottle.name}（${rankingText[rankingType]}${count}次）`).join("\n")}`
+      })
+
+    ctx.command("漂流瓶.搜索 <keyword:text>", "按关键词搜索瓶子的标题和内容", {checkArgCount: true})
+      .alias("搜索漂流瓶")
+      .usage("关键词按字面匹配，不区分大小写；日期格式为 YYYY-MM-DD")
+      .option("comments", "-c 同时搜索评论")
+      .option("user", "-u <user:string> 只搜索指定用户的瓶子和评论")
+      .option("since", "-s <date:string> 开始日期")
+      .option("until", "-e <date:string> 结束日期")
+      .option("hot", "-H 只搜索精选瓶子")
+      .option("page", "-p <page:posint> 分页")
+      .example("搜索漂流瓶 -c -s 2024-01-01 生日快乐")
+      .action(async ({options}, keyword) => {
+        const query: DriftBottle.SearchQuery = {keyword, comments: options.comments, hot: options.hot}
+        if (options.user) {
+          query.uid = /\d+/.exec(options.user)?.[0]
+          if (!query.uid) return "请输入正确的用户！"
+        }
+        for (const key of ["since", "until"] as const) {
+          if (!options[key]) continue
+          query[key] = parseDate(options[key])
+          if (isNaN(query[key])) return "日期格式不正确，应为 YYYY-MM-DD！"
+        }
+        const page = options.page ?? 1
+        let result: Awaited<ReturnType<typeof ctx.driftbottle.search>>
+        try {
+          result = await ctx.driftbottle.search(query, page, config.searchLimit)
+        } catch (e) {
+          if (e instanceof DriftBottleError) return e.message
+          throw e
+        }
+        if (result.total === 0) return "没有找到相关的瓶子！"
+        const lines = result.results.map(({bottle, comment}) => {
+          const target = `${bottle.id}号瓶子${bottle.name ? `(${bottle.name})` : ""}${comment ? `中的${comment.cid}号评论` : ""}`
+          const text = comment ? plainText(comment.content).slice(1, -1) : plainText(bottle.content) || bottle.name
+          return `${target}：${snippet(text, keyword.trim())}`
+        })
+        return `找到${result.total}条结果，发送“捞漂流瓶 <编号>”查看详细内容\n${lines.join("\n")}${config.searchLimit !== 0 ? `\n\n第${page}/${Math.ceil(result.total / config.searchLimit)}页，使用 -p <分页> 切换分页` : ""}`
+      })
+
+    ctx.command("漂流瓶.统计 [user:string]", "查看漂流瓶的统计信息")
+      .alias("漂流瓶统计")
+      .usage("不填用户则查看自己的统计，查看其他用户的统计需要权限")
+      .option("global", "-g 查看全局统计")
+      .example("漂流瓶.统计 -g")
+      .action(async ({session, options}, user) => {
+        let title: string
+        let sections: [string, string[]][]
+        if (options.global) {
+          const stats = await ctx.driftbottle.stats.global(config.statsDays)
+          title = "漂流瓶全局统计"
+          sections = [
+            ["总计", [`瓶子：${stats.bottles}`, `评论：${stats.comments}`, `被捞：${stats.picks}次`, `被看到：${stats.views}次`, `点赞和回应：${stats.reactions}`]],
+            [`近${config.statsDays}天（日期：扔出/评论/被看到）`, stats.daily.map(({day, bottles, comments, views}) => {
+              const date = new Date(day * 86400000)
+              return `${date.getMonth() + 1}月${date.getDate()}日：${bottles}/${comments}/${views}`
+            })],
+            ["被捞最多的瓶子", stats.topBottles.map((bottle) => `${bottle.id}${bottle.name ? `(${bottle.name})` : ""}：${bottle.pickCount}次`)],
+            [`近${config.statsDays}天最活跃的频道`, stats.topChannels.map(({channelId, count}) => `${channelId}：${count}次`)],
+          ]
+        } else {
+          let uid = session.userId
+          if (user) {
+            uid = /\d+/.exec(user)?.[0]
+            if (!uid) return "请输入正确的用户！"
+            if (uid !== session.userId && !await ctx.driftbottle.hasPermission(session, 'view-user')) return "你没有权限查看其他用户的统计！"
+          }
+          const stats = await ctx.driftbottle.stats.user(session.platform, uid)
+          title = uid === session.userId ? "你的漂流瓶统计" : `用户${uid}的漂流瓶统计`
+          sections = [
+            ["扔出的瓶子", [`瓶子：${stats.bottles}`, `被捞：${stats.picked}次`, `收到评论：${stats.commented}`, `收到点赞：${stats.liked}`]],
+            ["其他", [`评论：${stats.comments}`, `捞瓶子：${stats.picks}次`]],
+          ]
+        }
+
+        if (config.statsToImage) {
+          if (ctx.puppeteer) {
+            return await ctx.puppeteer.render(
+              `<html style="width: fit-content">
+                <body style="height: fit-content; padding: 10px;">
+                  <h3 style="margin: 0 0 10px;">${h.escape(title)}</h3>
+                  ${sections.map(([name, lines]) => `
+                    <table style="margin-bottom: 10px;">
+                      <tbody>
+                        <tr><th align="left">${h.escape(name)}</th></tr>
+                        ${(lines.length ? lines : ["暂无"]).map((line) => `<tr><td>${h.escape(line)}</td></tr>`).join("\n")}
+                      </tbody>
+                    </table>`).join("\n")}
+                </body>
+              </html>`
+            )
+          }
+          ctx.logger("re-driftbottle").warn("puppeteer 未加载")
+        }
+        return [title, ...sections.map(([name, lines]) => `\n${name}：\n${lines.length ? lines.join("\n") : "暂无"}`)].join("\n")
+      })
+
+    ctx.command("漂流瓶.审核列表", "列出等待审核的瓶子和评论")
+      .alias("审核列表")
+      .action(async ({session}) => {
+        if (!await ctx.driftbottle.hasPermission(session, 'review')) return "你没有权限！"
+        const { bottles, comments } = await ctx.driftbottle.pending()
+        if (bottles.length + comments.length === 0) return "审核队列是空的！"
+        const chain = []
+        if (bottles.length > 0) {
+          chain.push("待审核的瓶子：")
+          for (const bottle of bottles) {
+            chain.push(`${bottle.id}号瓶子${bottle.name ? `(${bottle.name})` : ""}，来自“${bottle.username}”：${bottle.content}`)
+          }
+        }
+        if (comments.length > 0) {
+          chain.push("待审核的评论：")
+          for (const comment of comments) {
+            chain.push(`${comment.bid}号瓶子中的${comment.cid}号评论，来自“${comment.username}”：${comment.content}`)
+          }
+        }
+        chain.push("\n发送“通过审核 <瓶子编号> [评论编号]”或“驳回审核 <瓶子编号> [评论编号] [理由]”处理")
+        return chain.join("\n")
+      })
+
+    ctx.command("漂流瓶.通过审核 <bid:posint> [cid:natural]", "通过瓶子或评论的审核", {checkArgCount: true})
+      .alias("通过审核")
+      .usage("评论编号不填或填0则审核瓶子本身")
+      .action(async ({session}, bid, cid) => {
+        if (!await ctx.driftbottle.hasPermission(session, 'review')) return "你没有权限！"
+        try {
+          await ctx.driftbottle.review(bid, cid ?? 0, true)
+        } catch (e) {
+          if (e instanceof DriftBottleError) return e.message
+          throw e
+        }
+        return "已通过审核！"
+      })
+
+    ctx.command("漂流瓶.驳回审核 <bid:posint> [cid:natural] [reason:text]", "驳回瓶子或评论的审核", {checkArgCount: true})
+      .alias("驳回审核")
+      .usage("评论编号不填或填0则审核瓶子本身")
+      .example("驳回审核 12 0 内容不适合公开")
+      .action(async ({session}, bid, cid, reason) => {
+        if (!await ctx.driftbottle.hasPermission(session, 'review')) return "你没有权限！"
+        try {
+          await ctx.driftbottle.review(bid, cid ?? 0, false, reason)
+        } catch (e) {
+          if (e instanceof DriftBottleError) return e.message
+          throw e
+        }
+        return "已驳回！"
+      })
+
+    ctx.command("漂流瓶.举报 <bid:posint> [cid:natural] [reason:text]", "举报瓶子或评论", {checkArgCount: true})
+      .alias("举报")
+      .usage("评论编号不填或填0则举报瓶子本身")
+      .example("举报 12 3 人身攻击")
+      .action(async ({session}, bid, cid, reason) => {
+        let hidden: boolean
+        try {
+          hidden = await ctx.driftbottle.report(bid, cid ?? 0, {platform: session.platform, uid: session.userId}, reason)
+        } catch (e) {
+          if (e instanceof DriftBottleError) return e.message
+          throw e
+        }
+        return hidden ? "举报成功，该内容已被隐藏，等待管理员处理！" : "举报成功，感谢你的反馈！"
+      })
+
+    ctx.command("漂流瓶.举报列表", "列出未处理的举报")
+      .alias("举报列表")
+      .action(async ({session}) => {
+        if (!await ctx.driftbottle.hasPermission(session, 'resolve-report')) return "你没有权限！"
+        const reports = await ctx.driftbottle.reports()
+        if (reports.length === 0) return "没有未处理的举报！"
+        const grouped = new Map<string, Report[]>()
+        for (const report of reports) {
+          const key = `${report.bid}-${report.cid}`
+          grouped.set(key, [...(grouped.get(key) ?? []), report])
+        }
+        const chain = ["未处理的举报："]
+        for (const [, group] of grouped) {
+          const { bid, cid } = group[0]
+          const reasons = group.map((report) => report.reason).filter(Boolean)
+          chain.push(`${cid ? `${bid}号瓶子中的${cid}号评论` : `${bid}号瓶子`}：被举报${group.length}次${reasons.length > 0 ? `，理由：${reasons.join("；")}` : ""}`)
+        }
+        chain.push("\n发送“处理举报 <瓶子编号> [评论编号]”驳回举报并恢复显示，加上 -d 则删除被举报的内容")
+        return chain.join("\n")
+      })
+
+    ctx.command("漂流瓶.处理举报 <bid:posint> [cid:natural]", "处理对瓶子或评论的举报", {checkArgCount: true})
+      .alias("处理举报")
+      .usage("评论编号不填或填0则处理对瓶子本身的举报")
+      .option("delete", "-d 删除被举报的内容")
+      .action(async ({session, options}, bid, cid) => {
+        if (!await ctx.driftbottle.hasPermission(session, 'resolve-report')) return "你没有权限！"
+        try {
+          await ctx.driftbottle.resolveReport(bid, cid ?? 0, options.delete, session)
+        } catch (e) {
+          if (e instanceof DriftBottleError) return e.message
+          throw e
+        }
+        return options.delete ? "已删除被举报的内容！" : "已驳回举报！"
+      })
+
+    ctx.command("漂流瓶.重新过滤", "用当前的过滤规则重新检查所有瓶子和评论")
+      .alias("重新过滤")
+      .action(async ({session}) => {
+        if (!await ctx.driftbottle.hasPermission(session, 'rescan')) return "你没有权限！"
+        await session.send("正在检查...")
+        const { bottles, comments } = await ctx.driftbottle.rescan()
+        if (bottles + comments === 0) return "没有发现违禁内容！"
+        const action = {reject: "已驳回", mask: "已遮蔽", review: "已送入审核队列"}[config.filterAction]
+        return `共有${bottles}个瓶子和${comments}条评论命中过滤规则，${action}`
+      })
+
 }
@@ -0,0 +1,115 @@
+import { Context, Schema, Session, Time } from 'koishi'
+
+declare module 'koishi' {
+  interface Tables {
+    bottle_limit: LimitRecord;
+  }
+}
+
+export type LimitAction = 'drop' | 'pick' | 'comment'
+
+export interface LimitRecord {
+  scope: 'user' | 'channel';
+  /** 平台名:用户ID 或 平台名:频道ID */
+  key: string;
+  action: LimitAction;
+  /** 上次操作的时间 */
+  last: Date;
+  /** count 所属的日期 */
+  day: number;
+  count: number;
+}
+
+export interface LimitRule {
+  cooldown: number
+  quota: number
+  channelCooldown: number
+  channelQuota: number
+}
+
+export interface LimitConfig {
+  limits: Record<LimitAction, LimitRule>
+}
+
+const rule = (name: string) => Schema.object({
+  cooldown: Schema.natural().default(0).description(`每个用户${name}的冷却时间（秒）`),
+  quota: Schema.natural().default(0).description(`每个用户每天${name}的次数上限`),
+  channelCooldown: Schema.natural().default(0).description(`每个频道${name}的冷却时间（秒）`),
+  channelQuota: Schema.natural().default(0).description(`每个频道每天${name}的次数上限`),
+}).description(`${name}（0为不限制）`)
+
+export const LimitConfig: Schema<LimitConfig> = Schema.object({
+  limits: Schema.object({
+    drop: rule("扔漂流瓶"),
+    pick: rule("捞漂流瓶"),
+    comment: rule("评论瓶子"),
+  }),
+})
+
+const actionText: Record<LimitAction, string> = {
+  drop: "扔漂流瓶",
+  pick: "捞漂流瓶",
+  comment: "评论瓶子",
+}
+
+export class RateLimiter {
+  constructor(private ctx: Context, private config: LimitConfig) {
+    ctx.model.extend('bottle_limit', {
+      scope: {
+        type: 'string',
+        length: 16,
+      },
+      key: 'string',
+      action: {
+        type: 'string',
+        length: 16,
+      },
+      last: 'timestamp',
+      day: 'unsigned',
+      count: 'unsigned',
+    }, {primary: ["scope", "key", "action"]});
+  }
+
+  /** 检查是否超出限制，超出时返回提示 */
+  async check(session: Session, action: LimitAction) {
+    const rule = this.config.limits[action]
+    const now = Date.now()
+    const today = Time.getDateNumber()
+    for (const [scope, key, cooldown, quota] of this.targets(session, rule)) {
+      if (!cooldown && !quota) continue
+      const record = (await this.ctx.database.get("bottle_limit", { scope, key, action }))[0]
+      if (!record) continue
+      const who = scope === "user" ? "你" : "这个频道"
+      const remain = +record.last + cooldown * 1000 - now
+      if (cooldown && remain > 0) {
+        return `${who}${actionText[action]}太频繁了，请在${Math.ceil(remain / 1000)}秒后再试！`
+      }
+      if (quota && record.day === today && record.count >= quota) {
+        return `${who}今天${actionText[action]}的次数已达上限（${quota}次），请明天再试！`
+      }
+    }
+  }
+
+  /** 记录一次操作 */
+  async record(session: Session, action: LimitAction) {
+    const rule = this.config.limits[action]
+    const now = Date.now()
+    const today = Time.getDateNumber()
+    for (const [scope, key, cooldown, quota] of this.targets(session, rule)) {
+      if (!cooldown && !quota) continue
+      const record = (await this.ctx.database.get("bottle_limit", { scope, key, action }))[0]
+      const count = record?.day === today ? record.count + 1 : 1
+      await this.ctx.database.upsert("bottle_limit", [{ scope, key, action, last: new Date(now), day: today, count }])
+    }
+  }
+
+  private targets(session: Session, rule: LimitRule) {
+    const targets: [LimitRecord["scope"], string, number, number][] = [
+      ["user", `${session.platform}:${session.userId}`, rule.cooldown, rule.quota],
+    ]
+    if (session.channelId) {
+      targets.push(["channel", `${session.platform}:${session.channelId}`, rule.channelCooldown, rule.channelQuota])
+    }
+    return targets
+  }
+}
@@ -0,0 +1,334 @@
+import { Context, Schema, Time, h } from 'koishi'
+import { fileURLToPath } from "url"
+import { basename, dirname, resolve } from 'path'
+import { createHash } from 'crypto'
+import { existsSync, readdirSync, readFileSync, statSync, unlinkSync } from 'fs'
+import mime from "mime-types"
+import type { Config } from '.'
+import { AssetsStorage, LocalStorage, S3Storage, StorageBackend, StorageMode } from './storage'
+import { Image } from "@koishijs/canvas"
+
+declare module 'koishi' {
+  interface Tables {
+    bottle_media: Media;
+  }
+}
+
+export interface Media {
+  /** 文件内容的 SHA-256 */
+  hash: string;
+  /** 在储存后端中的文件名 */
+  file: string;
+  /** 文件所在的储存后端 */
+  backend: StorageMode;
+  /** 发送消息时使用的链接 */
+  url: string;
+  mime: string;
+  size: number;
+  /** 引用该文件的瓶子和评论中的元素数量 */
+  refs: number;
+  /** 最后一次储存该文件的时间 */
+  time: Date;
+}
+
+export interface MediaConfig {
+  maxMedia: number
+  mediaTypes: string[]
+  maxFileSize: number
+  compressImage: boolean
+  maxImageSize: number
+}
+
+export const MediaConfig: Schema<MediaConfig> = Schema.object({
+  maxMedia: Schema.natural()
+    .default(4)
+    .description("每个瓶子或评论最多包含多少个图片、音频和视频（0为不限制）"),
+  mediaTypes: Schema.array(Schema.string())
+    .default(["image/*", "audio/*", "video/*"])
+    .role("table")
+    .description("允许的文件类型，如 image/png 或 image/*（留空则不限制）"),
+  maxFileSize: Schema.natural()
+    .default(2048)
+    .description("单个文件的最大大小（KB，0为不限制）"),
+  compressImage: Schema.boolean()
+    .default(true)
+    .description("储存前缩小过大的图片（需要 canvas 服务，不会处理 GIF）"),
+  maxImageSize: Schema.natural()
+    .default(1920)
+    .description("压缩后图片最长边的像素数"),
+})
+
+export interface MigrateResult {
+  count: number;
+  bottles: number[];
+  comments: number[];
+}
+
+export const mediaElements = ["img", "audio", "video"]
+
+/** 清理时跳过最近储存的文件：它们可能属于还没有写入数据库的瓶子或评论 */
+const gcGracePeriod = Time.hour
+
+export function matchType(mimeType: string, patterns: string[]) {
+  if (!patterns.length) return true
+  return patterns.some((pattern) => pattern.endsWith("/*")
+    ? mimeType.startsWith(pattern.slice(0, -1))
+    : mimeType === pattern)
+}
+
+export class MediaStore {
+  backends: Record<StorageMode, StorageBackend>
+
+  constructor(private ctx: Context, private config: Config) {
+    ctx.model.extend('bottle_media', {
+      hash: {
+        type: 'string',
+        length: 64,
+      },
+      file: 'string',
+      backend: {
+        type: 'string',
+        length: 16,
+        initial: 'file',
+      },
+      url: 'text',
+      mime: 'string',
+      size: 'unsigned',
+      refs: 'unsigned',
+      time: 'timestamp',
+    }, {primary: "hash"});
+
+    this.backends = {
+      file: new LocalStorage(config.path),
+      s3: new S3Storage(ctx, config.s3),
+      assets: new AssetsStorage(ctx),
+    }
+  }
+
+  /** 按内容哈希储存文件，相同的文件只会储存一份，返回发送消息时使用的链接 */
+  async save(buffer: Buffer, mimeType: string, mode = this.config.saveMode as StorageMode) {
+    const hash = createHash("sha256").update(buffer).digest("hex")
+    const existing = (await this.ctx.database.get("bottle_media", { hash }))[0]
+    if (existing && (existing.backend !== "file" || existsSync(resolve(this.config.path, existing.file)))) {
+      await this.ctx.database.set("bottle_media", { hash }, { refs: existing.refs + 1, time: new Date() })
+      return existing.url
+    }
+    const file = `${hash}.${mime.extension(mimeType) || "bin"}`
+    const url = await this.backends[mode].put(file, buffer, mimeType)
+    await this.ctx.database.upsert("bottle_media", [{
+      hash,
+      file,
+      backend: mode,
+      url,
+      mime: mimeType,
+      size: buffer.length,
+      refs: (existing?.refs ?? 0) + 1,
+      time: new Date(),
+    }])
+    return url
+  }
+
+  /** 读取任意静态资源链接的内容 */
+  async load(src: string): Promise<{ buffer: Buffer, mime: string }> {
+    if (src.startsWith("data:")) {
+      const [, mimeType, base64] = src.match(/^data:(.+?);base64,(.*)$/)
+      return { buffer: Buffer.from(base64, "base64"), mime: mimeType }
+    }
+    const media = await this.find(src)
+    if (media) {
+      return { buffer: await this.backends[media.backend].get(media.file, media.url), mime: media.mime }
+    }
+    if (src.startsWith("file:")) {
+      const path = fileURLToPath(src)
+      return { buffer: readFileSync(path), mime: mime.lookup(path) || "application/octet-stream" }
+    }
+    const response = await this.ctx.http("get", src, {responseType: "arraybuffer"})
+    return { buffer: Buffer.from(response.data), mime: response.headers.get("content-type")?.split(";")[0].trim() || "application/octet-stream" }
+  }
+
+  /** 缩小过大的图片，无法解码时返回原图 */
+  async compress(buffer: Buffer, mimeType: string): Promise<{ buffer: Buffer, mime: string }> {
+    const maxBytes = this.config.maxFileSize * 1024
+    if (!this.config.compressImage || !mimeType.startsWith("image/") || mimeType === "image/gif") return { buffer, mime: mimeType }
+    if (!this.ctx.canvas) {
+      this.ctx.logger("re-driftbottle").debug("canvas 服务未启用，跳过图片压缩")
+      return { buffer, mime: mimeType }
+    }
+    let image: Image
+    try {
+      image = await this.ctx.canvas.loadImage(buffer)
+    } catch (e) {
+      this.ctx.logger("re-driftbottle").warn(`图片解码失败，将储存原图：${this.config.debugMode ? e.stack : e.name + ": " + e.message}`)
+      return { buffer, mime: mimeType }
+    }
+    try {
+      let scale = Math.min(1, this.config.maxImageSize / Math.max(image.naturalWidth, image.naturalHeight))
+      const resized = scale < 1
+      if (!resized && (!maxBytes || buffer.length <= maxBytes)) return { buffer, mime: mimeType }
+      let result = buffer
+      while (true) {
+        const width = Math.max(1, Math.round(image.naturalWidth * scale))
+        const height = Math.max(1, Math.round(image.naturalHeight * scale))
+        const canvas = await this.ctx.canvas.createCanvas(width, height)
+        canvas.getContext("2d").drawImage(image, 0, 0, width, height)
+        result = await canvas.toBuffer("image/png")
+        await canvas.dispose()
+        if (!maxBytes || result.length <= maxBytes || Math.max(width, height) <= 64) break
+        scale /= 2
+      }
+      // 超过最大尺寸时必须使用缩小后的图片，即使重新编码为 PNG 后更大
+      return resized || result.length < buffer.length ? { buffer: result, mime: "image/png" } : { buffer, mime: mimeType }
+    } finally {
+      await image.dispose()
+    }
+  }
+
+  /** 释放一个链接的引用，没有引用时删除文件 */
+  async release(src: string) {
+    const media = await this.find(src)
+    if (media) {
+      if (media.refs > 1) {
+        await this.ctx.database.set("bottle_media", { hash: media.hash }, { refs: media.refs - 1 })
+        return
+      }
+      await this.ctx.database.remove("bottle_media", { hash: media.hash })
+      await this.backends[media.backend].delete(media.file, media.url)
+    } else if (src.startsWith("file:")) {
+      this.unlink(fileURLToPath(src))
+    }
+  }
+
+  /** 释放内容中所有静态资源的引用 */
+  async releaseContent(content: string) {
+    for (let element of h.parse(content)) {
+      if (mediaElements.includes(element.type) && element.attrs.src) {
+        await this.release(element.attrs.src)
+      }
+    }
+  }
+
+  /** 将所有瓶子和评论中的静态资源迁移到指定的储存方式 */
+  async migrate(target: StorageMode | 'base64'): Promise<MigrateResult> {
+    const logger = this.ctx.logger("re-driftbottle")
+    const moved = new Map<string, string>()
+    const stale: Media[] = []
+    if (target !== "base64") {
+      for (const media of await this.ctx.database.get("bottle_media", { backend: { $ne: target } })) {
+        try {
+          const buffer = await this.backends[media.backend].get(media.file, media.url)
+          const url = await this.backends[target].put(media.file, buffer, media.mime)
+          await this.ctx.database.set("bottle_media", { hash: media.hash }, { backend: target, url })
+          moved.set(media.url, url)
+          stale.push(media)
+        } catch (e) {
+          logger.warn(`静态资源 ${media.file} 迁移失败：${this.config.debugMode ? e.stack : e.name + ": " + e.message}`)
+        }
+      }
+    }
+
+    const result: MigrateResult = { count: 0, bottles: [], comments: [] }
+    for (const table of ["bottle", "comment"] as const) {
+      for (const row of await this.ctx.database.get(table, {}, ["id", "content"])) {
+        try {
+          let count = 0
+          const released: string[] = []
+          const elements = h.parse(row.content)
+          for (const element of elements) {
+            const src: string = element.attrs.src
+            if (!mediaElements.includes(element.type) || !src) continue
+            if (moved.has(src)) {
+              element.attrs.src = moved.get(src)
+            } else if (target === "base64") {
+              if (src.startsWith("data:")) continue
+              const { buffer, mime } = await this.load(src)
+              element.attrs.src = `data:${mime};base64,${buffer.toString("base64")}`
+              released.push(src)
+            } else {
+              if ((await this.find(src))?.backend === target) continue
+              const { buffer, mime } = await this.load(src)
+              element.attrs.src = await this.save(buffer, mime, target)
+              released.push(src)
+            }
+            count++
+          }
+          if (count === 0) continue
+          await this.ctx.database.set(table, { id: row.id }, { content: elements.join("") })
+          for (const src of released) await this.release(src)
+          result.count += count
+        } catch (e) {
+          result[`${table}s`].push(row.id)
+          logger.warn(`id为${row.id}的${table === "bottle" ? "漂流瓶" : "评论"}静态资源迁移失败：${this.config.debugMode ? e.stack : e.name + ": " + e.message}`)
+        }
+      }
+    }
+
+    if (result.bottles.length || result.comments.length) {
+      logger.warn(`部分内容迁移失败，已保留原储存位置中的 ${stale.length} 个文件`)
+    } else {
+      for (const media of stale) {
+        await this.backends[media.backend].delete(media.file, media.url).catch((e) => {
+          logger.warn(`静态资源 ${media.file} 删除失败：${e.message}`)
+        })
+      }
+    }
+    return result
+  }
+
+  /**
+   * 按瓶子和评论中的实际引用修正引用计数，并删除 config.path 中没有被引用的文件，返回被删除的文件名。
+   * 一小时内储存的文件不会被删除
+   */
+  async gc() {
+    const root = resolve(this.config.path)
+    const since = Date.now() - gcGracePeriod
+    const refs = new Map<string, number>()
+    const localFiles = new Set<string>()
+    const count = (content: string) => {
+      for (let element of h.parse(content)) {
+        const src: string = element.attrs.src
+        if (!mediaElements.includes(element.type) || !src) continue
+        refs.set(src, (refs.get(src) ?? 0) + 1)
+        if (src.startsWith("file:") && dirname(fileURLToPath(src)) === root) {
+          localFiles.add(basename(fileURLToPath(src)))
+        }
+      }
+    }
+    for (const bottle of await this.ctx.database.get("bottle", {}, ["content"])) count(bottle.content)
+    for (const comment of await this.ctx.database.get("comment", {}, ["content"])) count(comment.content)
+
+    const removed: string[] = []
+    for (const media of await this.ctx.database.get("bottle_media", {})) {
+      const refCount = refs.get(media.url) ?? 0
+      if (+media.time > since) {
+        localFiles.add(media.file)
+      } else if (refCount === 0) {
+        await this.ctx.database.remove("bottle_media", { hash: media.hash })
+        await this.backends[media.backend].delete(media.file, media.url)
+        removed.push(media.file)
+      } else if (refCount !== media.refs) {
+        await this.ctx.database.set("bottle_media", { hash: media.hash }, { refs: refCount })
+      }
+    }
+
+    for (const entry of readdirSync(root, { withFileTypes: true })) {
+      const file = entry.name
+      if (!entry.isFile() || localFiles.has(file) || removed.includes(file)) continue
+      if (statSync(resolve(root, file)).mtimeMs > since) continue
+      this.unlink(resolve(root, file))
+      removed.push(file)
+    }
+    return removed
+  }
+
+  private async find(src: string) {
+    return (await this.ctx.database.get("bottle_media", { url: src }))[0]
+  }
+
+  private unlink(path: string) {
+    try {
+      unlinkSync(path)
+    } catch (e) {
+      if (e.code !== "ENOENT") throw e
+    }
+  }
+}
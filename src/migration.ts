@@ -0,0 +1,185 @@
+import { Context, Query } from 'koishi'
+import type { DriftBottle } from './service'
+import { plainText } from './search'
+
+declare module 'koishi' {
+  interface Tables {
+    bottle_meta: Meta;
+  }
+}
+
+/** 插件自身的元数据，如数据版本 */
+export interface Meta {
+  key: string;
+  value: string;
+}
+
+/**
+ * 数据迁移步骤，按 version 顺序执行，完成后记录到元数据中。
+ * 每一步都必须可以重复执行：迁移中途停止时，下次启动会从这一步重新开始
+ */
+export interface Migration {
+  version: number;
+  description: string;
+  up(migrator: Migrator): Promise<void>;
+}
+
+export interface MigrationStatus {
+  version: number;
+  latest: number;
+  running: boolean;
+  /** 最近一次迁移失败的原因 */
+  error?: string;
+  pending: Migration[];
+}
+
+/** 每批处理的行数 */
+const batchSize = 200
+
+const migrations: Migration[] = [
+  {
+    version: 1,
+    description: "统计旧版本瓶子的评论数",
+    async up(migrator) {
+      await migrator.batches("bottle", { commentCount: -1 }, async (ids) => {
+        await migrator.driftbottle.recount({ ids })
+      })
+    },
+  },
+  {
+    version: 2,
+    description: "把旧版本“回复 N. 用户名：”格式的评论转换为回复",
+    async up(migrator) {
+      await migrator.batches("comment", { parentCid: 0, content: { $regex: /^回复 \d+\. / } }, async (ids) => {
+        for (const comment of await migrator.ctx.database.get("comment", { id: { $in: ids } })) {
+          let [, parentCid, content] = comment.content.match(/^回复 (\d+)\. [\s\S]*?：(“[\s\S]*”)$/) ?? []
+          if (!parentCid) continue
+          await migrator.ctx.database.set("comment", { id: comment.id }, { parentCid: +parentCid, content })
+        }
+      })
+    },
+  },
+  {
+    version: 3,
+    description: "为已有的瓶子和评论建立搜索索引",
+    async up(migrator) {
+      const { database } = migrator.ctx
+      const index = migrator.driftbottle.searchIndex
+      await migrator.batches("bottle", {}, async (ids) => {
+        for (const bottle of await database.get("bottle", { id: { $in: ids } }, ["id", "name", "content"])) {
+          await index.update(bottle.id, 0, bottle.name + "\n" + plainText(bottle.content))
+        }
+      })
+      await migrator.batches("comment", { deleted: 0 }, async (ids) => {
+        for (const comment of await database.get("comment", { id: { $in: ids } }, ["bid", "cid", "content"])) {
+          await index.update(comment.bid, comment.cid, plainText(comment.content))
+        }
+      })
+    },
+  },
+  {
+    version: 4,
+    description: "把配置中的随机发送群聊导入数据库",
+    async up(migrator) {
+      // 旧版配置中填写了的平台只发送到列出的群聊（没有列出群聊则不发送），没有填写的平台发送到所有群聊
+      const rows = Object.entries(migrator.driftbottle.config.guildId ?? {}).flatMap(([platform, guilds]) => [
+        { platform, channelId: "", guildId: "", enabled: 0 },
+        ...String(guilds ?? "").split(",").map((id) => id.trim()).filter(Boolean).map((id) => ({ platform, channelId: id, guildId: id, enabled: 1 })),
+      ])
+      if (rows.length > 0) await migrator.ctx.database.upsert("bottle_channel", rows)
+    },
+  },
+]
+
+export class Migrator {
+  running = false
+  error: string
+
+  constructor(public ctx: Context, public driftbottle: DriftBottle) {
+    ctx.model.extend('bottle_meta', {
+      key: {
+        type: 'string',
+        length: 64,
+      },
+      value: 'text',
+    }, {primary: "key"});
+  }
+
+  get latest() {
+    return migrations[migrations.length - 1].version
+  }
+
+  async getMeta(key: string) {
+    return (await this.ctx.database.get("bottle_meta", { key }))[0]?.value
+  }
+
+  async setMeta(key: string, value: string) {
+    await this.ctx.database.upsert("bottle_meta", [{ key, value }])
+  }
+
+  async version() {
+    return +(await this.getMeta("version") ?? 0)
+  }
+
+  async status(): Promise<MigrationStatus> {
+    const version = await this.version()
+    return {
+      version,
+      latest: this.latest,
+      running: this.running,
+      error: this.error,
+      pending: migrations.filter((migration) => migration.version > version),
+    }
+  }
+
+  /**
+   * 依次执行尚未完成的迁移步骤；hotScore 改变时（包括第一次运行）重新统计所有瓶子的
+   * 被捞次数和点赞数并计算热度分数
+   */
+  async run() {
+    if (this.running) return
+    const logger = this.ctx.logger("re-driftbottle")
+    this.running = true
+    this.error = undefined
+    try {
+      for (const migration of migrations) {
+        if (migration.version <= await this.version()) continue
+        logger.info(`正在进行数据迁移 ${migration.version}：${migration.description}`)
+        await migration.up(this)
+        await this.setMeta("version", String(migration.version))
+      }
+
+      const weights = JSON.stringify(this.driftbottle.config.hotScore)
+      if (await this.getMeta("hotScore") !== weights) {
+        await this.batches("bottle", {}, async (ids) => {
+          await this.driftbottle.recount({ ids, comments: false })
+        })
+        await this.setMeta("hotScore", weights)
+      }
+    } catch (e) {
+      this.error = e.message
+      throw e
+    } finally {
+      this.running = false
+    }
+  }
+
+  /** 按编号顺序分批读取满足条件的行，每批之间让出事件循环，避免长时间阻塞 */
+  async batches(table: "bottle" | "comment", query: Query.Expr, callback: (ids: number[]) => Promise<void>) {
+    let last = 0
+    while (true) {
+      // 两个表都只用到 id 字段，按 bottle 表推导类型即可
+      const rows = await this.ctx.database
+        .select(table as "bottle", { $and: [query, { id: { $gt: last } }] })
+        .orderBy("id", "asc")
+        .limit(batchSize)
+        .project(["id"])
+        .execute()
+      if (rows.length === 0) return
+      const ids = rows.map((row) => row.id)
+      await callback(ids)
+      last = ids[ids.length - 1]
+      await new Promise((resolve) => setImmediate(resolve))
+    }
+  }
+}
@@ -0,0 +1,374 @@
+import { $, Context, Schema, Time, h } from 'koishi'
+import { DriftBottle, DriftBottleError } from './service'
+import { plainText } from './search'
+
+declare module 'koishi' {
+  interface Tables {
+    bottle_notify_setting: NotifySetting;
+    bottle_notification: Notification;
+  }
+}
+
+/** channel 为在原频道 @ 用户，private 为私聊，digest 和 weekly 为每日或每周汇总后私聊，mute 为不提醒 */
+export type NotifyMode = 'channel' | 'private' | 'digest' | 'weekly' | 'mute'
+
+export type NotifyEvent = 'comment' | 'reply' | 'feature' | 'like' | 'review'
+
+export interface NotifySetting {
+  platform: string;
+  uid: string;
+  mode: NotifyMode;
+  /** 上次汇总包含的最后一条评论的 id 和日期，下次汇总从这里开始 */
+  digestId: number;
+  digestDay: number;
+}
+
+/** 等待发送的提醒，status 为 digest 的提醒会在汇总时发送 */
+export interface Notification {
+  id: number;
+  /** 用户所在的平台，旧版本的瓶子和评论的作者为空 */
+  platform: string;
+  uid: string;
+  gid: string;
+  cnid: string;
+  event: NotifyEvent;
+  mode: 'channel' | 'private';
+  content: string;
+  /** 提醒对应的瓶子和评论，用于引用提醒消息直接回复 */
+  bid: number;
+  cid: number;
+  status: 'pending' | 'digest' | 'sent' | 'failed';
+  time: Date;
+}
+
+export interface NotifyConfig {
+  notifyMode: 'channel' | 'private'
+  notifyEvents: NotifyEvent[]
+  digestHour: number
+  digestWeekday: number
+}
+
+export const NotifyConfig: Schema<NotifyConfig> = Schema.object({
+  notifyMode: Schema.union([
+    Schema.const("channel").description("在原频道 @ 用户"),
+    Schema.const("private").description("私聊"),
+  ])
+    .default("channel")
+    .description("用户没有设置时的提醒方式，汇总需要用户自己开启"),
+  notifyEvents: Schema.array(Schema.union([
+    Schema.const("comment").description("瓶子有新评论"),
+    Schema.const("reply").description("评论有新回复"),
+    Schema.const("feature").description("瓶子被设为精选"),
+    Schema.const("like").description("瓶子或评论被点赞"),
+    Schema.const("review").description("审核结果"),
+  ]))
+    .default(["comment", "reply", "feature", "review"])
+    .role("checkbox")
+    .description("需要提醒的事件"),
+  digestHour: Schema.natural()
+    .max(23)
+    .default(20)
+    .description("每天几点发送汇总"),
+  digestWeekday: Schema.natural()
+    .max(6)
+    .default(0)
+    .description("每周汇总在星期几发送，0 为周日"),
+})
+
+export const notifyModeText: Record<NotifyMode, string> = {
+  channel: "频道",
+  private: "私聊",
+  digest: "每日汇总",
+  weekly: "每周汇总",
+  mute: "免打扰",
+}
+
+function isDigest(mode: NotifyMode) {
+  return mode === "digest" || mode === "weekly"
+}
+
+/** 截取评论的开头作为预览 */
+function preview(content: string, length = 20) {
+  const text = plainText(content).replace(/^“|”$/g, "").replace(/\s+/g, " ")
+  return [...text].length > length ? [...text].slice(0, length).join("") + "…" : text
+}
+
+export class Notifications {
+  private flushing = false
+
+  constructor(private ctx: Context, private driftbottle: DriftBottle) {
+    ctx.model.extend('bottle_notify_setting', {
+      platform: 'string',
+      uid: 'string',
+      mode: {
+        type: 'string',
+        length: 16,
+      },
+      digestId: {
+        type: 'unsigned',
+        initial: 0,
+      },
+      digestDay: {
+        type: 'unsigned',
+        initial: 0,
+      },
+    }, {primary: ["platform", "uid"]});
+
+    ctx.model.extend('bottle_notification', {
+      id: 'unsigned',
+      platform: 'string',
+      uid: 'string',
+      gid: 'string',
+      cnid: 'string',
+      event: {
+        type: 'string',
+        length: 16,
+      },
+      mode: {
+        type: 'string',
+        length: 16,
+      },
+      content: 'text',
+      bid: 'unsigned',
+      cid: 'unsigned',
+      status: {
+        type: 'string',
+        length: 16,
+      },
+      time: 'timestamp',
+    }, {primary: "id", autoInc: true});
+
+    ctx.on("driftbottle/commented", async (comment, bottle) => {
+      const parent = comment.parentCid ? (await ctx.database.get("comment", { bid: bottle.id, cid: comment.parentCid }))[0] : undefined
+      const content = `\n\n${comment.content}\n\n发送【捞漂流瓶 ${bottle.id}】查看详情`
+      if (parent && !parent.deleted && parent.uid !== comment.uid) {
+        await this.push(parent, "reply", `${bottle.id}号瓶子中你的${parent.cid}号评论有新回复！${content}`, bottle.id, comment.cid)
+      }
+      // 回复的是瓶子主人自己的评论时，已经提醒过了
+      if (bottle.uid !== comment.uid && parent?.uid !== bottle.uid) {
+        await this.push(bottle, "comment", `你的${bottle.id}号瓶子有新评论！${content}`, bottle.id, comment.cid)
+      }
+    })
+
+    ctx.on("driftbottle/featured", async (bottle) => {
+      await this.push(bottle, "feature", `你的${bottle.id}号瓶子被选为精选瓶子了！`, bottle.id)
+    })
+
+    ctx.on("driftbottle/reacted", async (reaction, bottle, session) => {
+      const target = reaction.cid ? (await ctx.database.get("comment", { bid: bottle.id, cid: reaction.cid }))[0] : bottle
+      if (!target) return
+      const name = session?.username ?? "有人"
+      const action = reaction.reaction === "like" ? "赞了" : `用 ${reaction.reaction} 回应了`
+      await this.push(target, "like", `${name}${action}你${reaction.cid ? `在${bottle.id}号瓶子中的${reaction.cid}号评论` : `的${bottle.id}号瓶子`}！`, bottle.id, reaction.cid)
+    })
+
+    // 处理因重启等原因没有发送的提醒
+    ctx.setInterval(() => this.flush().catch((e) => ctx.logger("re-driftbottle").warn(e)), Time.minute)
+    ctx.setInterval(() => {
+      const now = new Date()
+      if (now.getHours() !== driftbottle.config.digestHour) return
+      this.sendDigest(now.getDay() === driftbottle.config.digestWeekday ? ["digest", "weekly"] : ["digest"])
+        .then(() => ctx.database.remove("bottle_notification", {
+          $or: [{ status: "sent" }, { status: "failed" }],
+          time: { $lt: new Date(Date.now() - Time.week) },
+        }))
+        .catch((e) => {
+          ctx.logger("re-driftbottle").warn(`发送提醒汇总失败：${driftbottle.config.debugMode ? e.stack : e.name + ": " + e.message}`)
+        })
+    }, Time.hour)
+  }
+
+  async getMode(platform: string, uid: string): Promise<NotifyMode> {
+    const setting = await this.getSetting(platform, uid)
+    return setting?.mode ?? this.driftbottle.config.notifyMode
+  }
+
+  /**
+   * 按平台和用户ID查找提醒设置。旧版本的瓶子和评论没有记录作者的平台，
+   * 这时只有在该用户ID只有一条设置时才能确定是谁的设置
+   */
+  async getSetting(platform: string, uid: string) {
+    if (platform) return (await this.ctx.database.get("bottle_notify_setting", { platform, uid }))[0]
+    const settings = await this.ctx.database.get("bottle_notify_setting", { uid })
+    return settings.length === 1 ? settings[0] : undefined
+  }
+
+  async setMode(platform: string, uid: string, mode: NotifyMode) {
+    const previous = await this.getMode(platform, uid)
+    if (isDigest(mode) && !isDigest(previous)) {
+      // 开始汇总时只汇总之后的评论
+      const digestId = await this.ctx.database.select("comment").execute((row) => $.max(row.id)) ?? 0
+      await this.ctx.database.upsert("bottle_notify_setting", [{ platform, uid, mode, digestId, digestDay: Time.getDateNumber() }])
+    } else {
+      await this.ctx.database.upsert("bottle_notify_setting", [{ platform, uid, mode }])
+    }
+  }
+
+  /** 按用户的设置把提醒加入队列，不会等待发送完成 */
+  async push(target: { platform?: string, uid: string, gid?: string, cnid?: string }, event: NotifyEvent, content: string, bid = 0, cid = 0) {
+    if (!this.driftbottle.config.notifyEvents.includes(event)) return
+    const setting = await this.getSetting(target.platform, target.uid)
+    const mode = setting?.mode ?? this.driftbottle.config.notifyMode
+    if (mode === "mute") return
+    // 瓶子的新评论会在汇总时从评论表中统计
+    if (isDigest(mode) && event === "comment") return
+    await this.ctx.database.create("bottle_notification", {
+      platform: target.platform || setting?.platform || "",
+      uid: target.uid,
+      gid: target.gid ?? "",
+      cnid: target.cnid ?? "",
+      event,
+      mode: mode === "channel" ? "channel" : "private",
+      content,
+      bid,
+      cid,
+      status: isDigest(mode) ? "digest" : "pending",
+      time: new Date(),
+    })
+    if (!isDigest(mode)) this.flush().catch((e) => this.ctx.logger("re-driftbottle").warn(e))
+  }
+
+  /** 依次发送队列中的提醒，同一时间只会有一个 flush 在运行 */
+  async flush() {
+    if (this.flushing) return
+    this.flushing = true
+    try {
+      while (true) {
+        const queue = await this.ctx.database
+          .select("bottle_notification", { status: "pending" })
+          .orderBy("id", "asc")
+          .limit(20)
+          .execute()
+        if (queue.length === 0) break
+        for (const notification of queue) {
+          let status: Notification['status'] = "sent"
+          try {
+            await this.driftbottle.delivery.run(`向用户 ${notification.uid} 发送提醒`, () => this.deliver(notification))
+          } catch {
+            status = "failed"
+          }
+          await this.ctx.database.set("bottle_notification", { id: notification.id }, { status })
+        }
+      }
+    } finally {
+      this.flushing = false
+    }
+  }
+
+  /** 向设置了对应汇总方式的用户发送汇总 */
+  async sendDigest(modes: NotifyMode[] = ["digest", "weekly"]) {
+    for (const mode of modes) {
+      for (const setting of await this.ctx.database.get("bottle_notify_setting", { mode })) {
+        await this.digest(setting).catch((e) => {
+          this.ctx.logger("re-driftbottle").warn(`向用户 ${setting.uid} 发送汇总失败：${this.driftbottle.config.debugMode ? e.stack : e.name + ": " + e.message}`)
+        })
+      }
+    }
+  }
+
+  /**
+   * 统计用户的瓶子自上次汇总以来的新评论，和其他待汇总的提醒合并为一条私聊消息发送，
+   * 每个瓶子列出标题、新评论数和最新一条评论的预览
+   */
+  private async digest(setting: NotifySetting) {
+    const { platform, uid } = setting
+    const latest = await this.ctx.database.select("comment").execute((row) => $.max(row.id)) ?? 0
+    // 没有记录平台的旧瓶子只在能确定是这个用户的时候汇总，参见 getSetting
+    const platforms = await this.getSetting("", uid) ? [platform, ""] : [platform]
+    const bottles = await this.ctx.database.get("bottle", { platform: { $in: platforms }, uid, status: "approved" }, ["id", "name"])
+    const comments = bottles.length === 0 ? [] : await this.ctx.database
+      .select("comment", {
+        bid: { $in: bottles.map((bottle) => bottle.id) },
+        // 日期用于缩小范围，id 用于排除上次汇总当天已经汇总过的评论
+        time: { $gte: setting.digestDay },
+        id: { $gt: setting.digestId, $lte: latest },
+        uid: { $ne: uid },
+        status: "approved",
+        hidden: 0,
+        deleted: 0,
+      })
+      .orderBy("id", "asc")
+      .execute()
+    const byBottle = new Map<number, typeof comments>()
+    for (const comment of comments) byBottle.set(comment.bid, [...(byBottle.get(comment.bid) ?? []), comment])
+    // 瓶子中的回复已经统计在新评论中
+    const queued = await this.ctx.database.get("bottle_notification", { platform, uid, status: "digest" })
+    const others = queued.filter((notification) => !(notification.event === "reply" && byBottle.has(notification.bid)))
+
+    if (comments.length > 0 || others.length > 0) {
+      const period = setting.mode === "weekly" ? "本周" : "今天"
+      const sections: string[] = []
+      if (comments.length > 0) {
+        const lines = [...byBottle]
+          .sort(([, a], [, b]) => b.length - a.length)
+          .map(([bid, list]) => {
+            const name = bottles.find((bottle) => bottle.id === bid).name
+            const last = list[list.length - 1]
+            return `${bid}号瓶子${name ? `「${name}」` : ""}：${list.length}条新评论\n最新：${last.username}：${preview(last.content)}`
+          })
+        sections.push(`${period}你的漂流瓶有${comments.length}条新评论：\n\n${lines.join("\n\n")}\n\n发送【捞漂流瓶 编号】查看详情`)
+      }
+      if (others.length > 0) {
+        sections.push(`${period}你还有${others.length}条漂流瓶提醒：\n\n${others.map((notification) => notification.content).join("\n\n----\n\n")}`)
+      }
+      let status: Notification['status'] = "sent"
+      try {
+        await this.driftbottle.delivery.run(`向用户 ${uid} 发送汇总`, () => this.sendPrivate(setting.platform, uid, sections.join("\n\n====\n\n")))
+      } catch {
+        status = "failed"
+      }
+      if (queued.length > 0) {
+        await this.ctx.database.set("bottle_notification", { id: { $in: queued.map((notification) => notification.id) } }, { status })
+      }
+    }
+    await this.ctx.database.set("bottle_notify_setting", { platform, uid }, { digestId: latest, digestDay: Time.getDateNumber() })
+  }
+
+  private async deliver(notification: Notification) {
+    if (notification.mode === "private") return await this.sendPrivate(notification.platform, notification.uid, notification.content)
+    let lastError: Error
+    for (const bot of this.bots(notification.platform)) {
+      for (const channelId of [notification.cnid, notification.gid]) {
+        if (!channelId) continue
+        try {
+          if (channelId.startsWith("private:")) {
+            await bot.sendMessage(channelId, notification.content)
+            return
+          }
+          const messageIds = await bot.sendMessage(channelId, h("at", {id: notification.uid}) + " " + notification.content)
+          if (notification.bid) await this.driftbottle.linkMessages(bot.platform, channelId, messageIds, notification.bid, notification.cid)
+          return
+        } catch (e) {
+          lastError = e
+        }
+      }
+    }
+    // 原频道无法发送时改为私聊
+    try {
+      await this.sendPrivate(notification.platform, notification.uid, notification.content)
+    } catch (e) {
+      throw lastError ?? e
+    }
+  }
+
+  /** 可以向该平台的用户发送消息的机器人，不知道平台时依次尝试所有机器人 */
+  private bots(platform: string) {
+    return platform ? this.ctx.bots.filter((bot) => bot.platform === platform) : this.ctx.bots
+  }
+
+  private async sendPrivate(platform: string, uid: string, content: string) {
+    const bots = this.bots(platform)
+    // 没有机器人时重试也不会成功，直接放弃
+    if (bots.length === 0) throw new DriftBottleError('no-bot', `没有可以私聊用户 ${uid} 的机器人`)
+    let lastError: Error
+    for (const bot of bots) {
+      try {
+        await bot.sendPrivateMessage(uid, content)
+        return
+      } catch (e) {
+        lastError = e
+      }
+    }
+    throw lastError
+  }
+}
@@ -0,0 +1,79 @@
+import { Schema } from 'koishi'
+
+export type Role = 'moderator' | 'curator' | 'owner'
+
+export const roleLevel: Record<Role, number> = {
+  moderator: 1,
+  curator: 2,
+  owner: 3,
+}
+
+export type Permission =
+  | 'drop-others'
+  | 'rename-others'
+  | 'tag-others'
+  | 'delete-bottle'
+  | 'delete-comment'
+  | 'delete-expired'
+  | 'delete-invalid'
+  | 'feature'
+  | 'view-user'
+  | 'migrate-storage'
+  | 'archive'
+  | 'review'
+  | 'resolve-report'
+  | 'rescan'
+  | 'bypass-limit'
+  | 'random-send'
+
+export interface RoleEntry {
+  platform: string
+  userId: string
+  role: Role
+}
+
+export interface PermissionConfig {
+  roles: RoleEntry[]
+  authority: Record<Role, number>
+  permissions: Record<Permission, Role>
+}
+
+const role = Schema.union([
+  Schema.const("moderator").description("管理员（moderator）"),
+  Schema.const("curator").description("策展人（curator）"),
+  Schema.const("owner").description("所有者（owner）"),
+])
+
+export const PermissionConfig: Schema<PermissionConfig> = Schema.object({
+  roles: Schema.array(Schema.object({
+    platform: Schema.string().description("平台名（留空则匹配所有平台）"),
+    userId: Schema.string().required().description("用户ID"),
+    role: role.default("moderator").description("角色"),
+  }))
+    .role("table")
+    .default([])
+    .description("漂流瓶角色，角色等级从低到高为 moderator < curator < owner"),
+  authority: Schema.object({
+    moderator: Schema.natural().default(0).description("获得 moderator 角色所需的 Koishi 权限等级"),
+    curator: Schema.natural().default(0).description("获得 curator 角色所需的 Koishi 权限等级"),
+    owner: Schema.natural().default(0).description("获得 owner 角色所需的 Koishi 权限等级"),
+  }).description("按 Koishi 权限等级自动授予角色（0为不启用）"),
+  permissions: Schema.object({
+    'drop-others': role.default("moderator").description("扔别人的消息"),
+    'rename-others': role.default("moderator").description("命名别人的瓶子"),
+    'tag-others': role.default("moderator").description("修改别人瓶子的标签"),
+    'delete-bottle': role.default("moderator").description("删除别人的瓶子"),
+    'delete-comment': role.default("moderator").description("删除别人的评论"),
+    'delete-expired': role.default("owner").description("删除过期瓶子"),
+    'delete-invalid': role.default("owner").description("删除无效瓶子/评论"),
+    'feature': role.default("curator").description("设置精选瓶子"),
+    'view-user': role.default("moderator").description("查看用户瓶子"),
+    'migrate-storage': role.default("owner").description("迁移静态资源储存方式"),
+    'archive': role.default("owner").description("导出和导入漂流瓶存档"),
+    'review': role.default("moderator").description("审核瓶子和评论"),
+    'resolve-report': role.default("moderator").description("处理举报"),
+    'rescan': role.default("moderator").description("用过滤规则重新检查已有内容"),
+    'bypass-limit': role.default("moderator").description("不受频率限制和每日次数上限约束"),
+    'random-send': role.default("moderator").description("设置群聊的随机发送"),
+  }).description("各项操作所需的最低角色"),
+})
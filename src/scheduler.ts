@@ -0,0 +1,197 @@
+import { Bot, Context, Random, Schema } from 'koishi'
+import type { Bottle, DriftBottle } from './service'
+
+declare module 'koishi' {
+  interface Tables {
+    bottle_channel: ChannelSetting;
+  }
+}
+
+/**
+ * opt-in 为只发送到开启了随机发送的频道，opt-out 为发送到机器人所在的所有群聊，关闭了的除外。
+ * 可以用 channelId 为空的设置为单个平台指定，enabled 为 1 时为 opt-out
+ */
+export type RandomSendMode = 'opt-in' | 'opt-out'
+
+/** 频道的随机发送设置，channelId 为空时为整个平台的默认设置 */
+export interface ChannelSetting {
+  platform: string;
+  /** 发送到的频道，QQ 等平台与 guildId 相同 */
+  channelId: string;
+  /** 频道所在的群聊，opt-out 时有设置的群聊只发送到开启了的频道 */
+  guildId: string;
+  enabled: number;
+  /** 两次发送之间至少间隔的分钟数，0 为不限制 */
+  interval: number;
+  /** 免打扰时段的开始和结束小时（不包括结束的小时），相同时为不设置 */
+  quietStart: number;
+  quietEnd: number;
+  lastSent: Date;
+}
+
+export interface RandomSendConfig {
+  randomSendMode: RandomSendMode
+}
+
+export const RandomSendConfig: Schema<RandomSendConfig> = Schema.object({
+  randomSendMode: Schema.union([
+    Schema.const("opt-in").description("只发送到用“随机发送 开启”开启了的频道"),
+    Schema.const("opt-out").description("发送到机器人所在的所有群聊，用“随机发送 关闭”关闭了的除外"),
+  ])
+    .default("opt-out")
+    .description("随机发送的目标，可以用“随机发送 -P”为单个平台设置"),
+})
+
+/** 随机发送的目标频道，多个机器人在同一个频道时只会发送一次 */
+export interface SendTarget {
+  platform: string;
+  guildId: string;
+  channelId: string;
+  /** 可以发送到这个群聊的机器人，依次尝试 */
+  bots: Bot[];
+}
+
+export function isQuiet(setting: Pick<ChannelSetting, 'quietStart' | 'quietEnd'>, hour = new Date().getHours()) {
+  const { quietStart: start, quietEnd: end } = setting
+  if (start === end) return false
+  return start < end ? hour >= start && hour < end : hour >= start || hour < end
+}
+
+export class Scheduler {
+  constructor(private ctx: Context, private driftbottle: DriftBottle) {
+    ctx.model.extend('bottle_channel', {
+      platform: 'string',
+      channelId: 'string',
+      guildId: 'string',
+      enabled: {
+        type: 'unsigned',
+        initial: 1,
+      },
+      interval: {
+        type: 'unsigned',
+        initial: 0,
+      },
+      quietStart: {
+        type: 'unsigned',
+        initial: 0,
+      },
+      quietEnd: {
+        type: 'unsigned',
+        initial: 0,
+      },
+      lastSent: 'timestamp',
+    }, {primary: ["platform", "channelId"]});
+  }
+
+  async getChannel(platform: string, channelId: string) {
+    return (await this.ctx.database.get("bottle_channel", { platform, channelId }))[0]
+  }
+
+  async setChannel(platform: string, channelId: string, setting: Partial<ChannelSetting>) {
+    await this.ctx.database.upsert("bottle_channel", [{ ...setting, platform, channelId }])
+  }
+
+  /** 平台的随机发送方式，没有单独设置时使用配置 */
+  async getMode(platform: string): Promise<RandomSendMode> {
+    const setting = await this.getChannel(platform, "")
+    if (!setting) return this.driftbottle.config.randomSendMode ?? "opt-out"
+    return setting.enabled ? "opt-out" : "opt-in"
+  }
+
+  async setMode(platform: string, mode: RandomSendMode) {
+    await this.setChannel(platform, "", { guildId: "", enabled: mode === "opt-out" ? 1 : 0 })
+  }
+
+  /** 汇总所有机器人可以发送的频道，去掉重复的、关闭了的、正在免打扰的和未到发送间隔的 */
+  async targets() {
+    const modes = new Map<string, RandomSendMode>()
+    const channels = new Map<string, ChannelSetting>()
+    // opt-out 时，有频道设置的群聊按频道设置发送，不再发送到群聊本身
+    const configured = new Set<string>()
+    for (const row of await this.ctx.database.get("bottle_channel", {})) {
+      if (!row.channelId) {
+        modes.set(row.platform, row.enabled ? "opt-out" : "opt-in")
+        continue
+      }
+      channels.set(`${row.platform}:${row.channelId}`, row)
+      configured.add(`${row.platform}:${row.guildId}`)
+    }
+
+    const targets = new Map<string, SendTarget>()
+    const add = (bot: Bot, channelId: string, guildId: string) => {
+      const key = `${bot.platform}:${channelId}`
+      if (!targets.has(key)) targets.set(key, { platform: bot.platform, guildId, channelId, bots: [] })
+      if (!targets.get(key).bots.includes(bot)) targets.get(key).bots.push(bot)
+    }
+
+    for (const bot of this.ctx.bots) {
+      const mode = modes.get(bot.platform) ?? this.driftbottle.config.randomSendMode ?? "opt-out"
+      if (mode === "opt-out") {
+        try {
+          for await (const guild of bot.getGuildIter()) {
+            if (!configured.has(`${bot.platform}:${guild.id}`)) add(bot, guild.id, guild.id)
+          }
+        } catch (e) {
+          this.ctx.logger("re-driftbottle").warn(`获取机器人 ${bot.selfId} 的群聊列表失败：${this.driftbottle.config.debugMode ? e.stack : e.name + ": " + e.message}`)
+        }
+      }
+      // 开启了的频道不需要在群聊列表中，由同平台的机器人依次尝试
+      for (const setting of channels.values()) {
+        if (setting.platform === bot.platform && setting.enabled) add(bot, setting.channelId, setting.guildId)
+      }
+    }
+
+    const now = Date.now()
+    return [...targets.values()].filter((target) => {
+      const setting = channels.get(`${target.platform}:${target.channelId}`)
+      if (!setting) return true
+      if (isQuiet(setting)) return false
+      return !setting.interval || !setting.lastSent || now - +setting.lastSent >= setting.interval * 60000
+    })
+  }
+
+  /** 每个平台随机选一个频道发送随机漂流瓶，返回发送成功的数量 */
+  async tick() {
+    if (await this.driftbottle.count() === 0) return 0
+    const byPlatform = new Map<string, SendTarget[]>()
+    for (const target of await this.targets()) byPlatform.set(target.platform, [...(byPlatform.get(target.platform) ?? []), target])
+    let sent = 0
+    for (const targets of byPlatform.values()) {
+      try {
+        await this.send(Random.pick(targets))
+        sent++
+      } catch {
+        // 失败原因已经记录在日志中，等待下一次发送
+      }
+    }
+    return sent
+  }
+
+  private async send(target: SendTarget) {
+    let bottle: Bottle
+    let channelId = target.channelId
+    let bot: Bot
+    await this.driftbottle.delivery.run(() => `${bottle ? `${bottle.id}号` : "随机"}漂流瓶发送`, async (retry) => {
+      // 重试时换下一个机器人
+      bot = target.bots[retry % target.bots.length]
+      bottle ??= await this.driftbottle.pick()
+      const {content, id, username} = bottle
+      const text = `一只来自“${username}”的${id}号瓶子漂上了岸！\n发送“捞漂流瓶 ${id}”可以查看详细信息\n内容：`
+      const messages = content.includes("<audio") || content.includes("<video") ? [text, content] : [text + content]
+      try {
+        for (let message of messages) await bot.sendMessage(channelId, message)
+      } catch (e) {
+        let channels = []
+        for await (let channel of bot.getChannelIter(target.guildId)) {
+          if (channel.type === 0) channels.push(channel)
+        }
+        if (channels.length === 0) throw e
+        channelId = Random.pick(channels).id
+        for (let message of messages) await bot.sendMessage(channelId, message)
+      }
+    })
+    // 只更新已有的设置，没有设置的频道不受发送间隔限制
+    await this.ctx.database.set("bottle_channel", { platform: target.platform, channelId: target.channelId }, { lastSent: new Date() })
+    await this.driftbottle.stats.record(bottle.id, "random", {platform: bot.platform, channelId})
+  }
+}
@@ -0,0 +1,75 @@
+import { Context, h } from 'koishi'
+
+declare module 'koishi' {
+  interface Tables {
+    bottle_search: SearchToken;
+  }
+}
+
+/** 搜索用的倒排索引，每个词元对应包含它的瓶子（cid 为 0）或评论 */
+export interface SearchToken {
+  token: string;
+  bid: number;
+  cid: number;
+}
+
+/** 去掉图片等元素后的纯文本 */
+export function plainText(content: string) {
+  return h.select(content, "text").map((element) => element.attrs.content).join("")
+}
+
+/**
+ * 把文本切分为词元：连续的文字和数字按相邻两个字符切分（二元分词），
+ * 这样中文不需要词典也能检索任意位置的子串；只有一个字符的片段保留单字
+ */
+export function tokenize(text: string) {
+  const tokens = new Set<string>()
+  for (const [run] of text.toLowerCase().matchAll(/[\p{L}\p{N}]+/gu)) {
+    const chars = [...run]
+    if (chars.length === 1) tokens.add(chars[0])
+    for (let i = 0; i + 1 < chars.length; i++) tokens.add(chars[i] + chars[i + 1])
+  }
+  return [...tokens]
+}
+
+export class SearchIndex {
+  constructor(private ctx: Context) {
+    ctx.model.extend('bottle_search', {
+      token: {
+        type: 'string',
+        length: 16,
+      },
+      bid: 'unsigned',
+      cid: 'unsigned',
+    }, {primary: ["token", "bid", "cid"]});
+  }
+
+  /** 重新索引瓶子（cid 为 0）或评论的文本 */
+  async update(bid: number, cid: number, text: string) {
+    await this.ctx.database.remove("bottle_search", { bid, cid })
+    const tokens = tokenize(text)
+    if (tokens.length > 0) await this.ctx.database.upsert("bottle_search", tokens.map((token) => ({ token, bid, cid })))
+  }
+
+  /** 删除瓶子（不指定 cid 时包括其所有评论）或评论的索引 */
+  async remove(bid: number, cid?: number) {
+    await this.ctx.database.remove("bottle_search", cid === undefined ? { bid } : { bid, cid })
+  }
+
+  /**
+   * 返回可能包含关键词的瓶子和评论，结果仍需按原文核对；
+   * 关键词中没有两个字以上的连续文字时无法使用索引，返回 undefined
+   */
+  async candidates(keyword: string) {
+    const tokens = tokenize(keyword).filter((token) => [...token].length > 1)
+    if (tokens.length === 0) return
+    let matched: Set<string>
+    for (const token of tokens) {
+      const rows = await this.ctx.database.get("bottle_search", { token }, ["bid", "cid"])
+      const keys = new Set(rows.map((row) => `${row.bid}:${row.cid}`))
+      matched = matched ? new Set([...matched].filter((key) => keys.has(key))) : keys
+      if (matched.size === 0) break
+    }
+    return [...matched].map((key) => key.split(":").map(Number) as [number, number])
+  }
+}
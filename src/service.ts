@@ -0,0 +1,1331 @@
+import { $, Awaitable, Context, Dict, Query, Service, Session, Random, Time, h } from 'koishi'
+import type { Config } from '.'
+import { Permission, Role, roleLevel } from './permission'
+import { ContentFilter, escapeRegExp } from './filter'
+import { LimitAction, RateLimiter } from './limit'
+import { MediaStore, matchType } from './media'
+import { Delivery } from './delivery'
+import { Statistics } from './stats'
+import { SearchIndex, plainText } from './search'
+import { Archiver } from './archive'
+import { Migrator } from './migration'
+import { Notifications } from './notification'
+import { Scheduler } from './scheduler'
+
+declare module 'koishi' {
+  interface Context {
+    driftbottle: DriftBottle
+  }
+
+  interface Tables {
+    bottle: Bottle;
+    comment: Comment;
+    bottle_report: Report;
+    bottle_pick: Pick;
+    bottle_message: MessageLink;
+    bottle_reaction: Reaction;
+    bottle_tag: BottleTag;
+  }
+
+  interface Events {
+    /** 扔漂流瓶前触发，可修改 options.content；返回 true 或字符串（拒绝理由）以拦截 */
+    'driftbottle/before-drop'(options: DriftBottle.DropOptions, session?: Session): Awaitable<void | boolean | string>
+    'driftbottle/dropped'(bottle: Bottle, session?: Session): void
+    'driftbottle/picked'(bottle: Bottle, session?: Session): void
+    'driftbottle/commented'(comment: Comment, bottle: Bottle, session?: Session): void
+    'driftbottle/deleted'(bottle: Bottle, session?: Session): void
+    'driftbottle/featured'(bottle: Bottle, session?: Session): void
+    'driftbottle/reacted'(reaction: Reaction, bottle: Bottle, session?: Session): void
+  }
+}
+
+export type ReviewStatus = 'pending' | 'approved' | 'rejected'
+
+export interface Bottle {
+  id: number;
+  name: string;
+  /** 作者所在的平台，旧版本的瓶子为空 */
+  platform: string;
+  uid: string;
+  gid: string;
+  cnid: string;
+  username: string;
+  content: string;
+  isHot: number;
+  commentCount: number;
+  likeCount: number;
+  pickCount: number;
+  /** 由评论数、点赞数和被捞次数按 hotScore 加权得到的热度分数 */
+  score: number;
+  status: ReviewStatus;
+  hidden: number;
+  /** 是否已沉底（过期或被捞次数达到上限后归档） */
+  sunk: number;
+  time: number;
+}
+export interface Comment {
+  id: number;
+  cid: number;
+  bid: number;
+  /** 回复的评论编号，直接评论瓶子时为 0 */
+  parentCid: number;
+  /** 作者所在的平台，旧版本的评论为空 */
+  platform: string;
+  uid: string;
+  gid: string;
+  cnid: string;
+  username: string;
+  content: string;
+  status: ReviewStatus;
+  hidden: number;
+  /** 是否为被删除后保留的占位评论 */
+  deleted: number;
+  likeCount: number;
+  time: number;
+}
+
+export type ReportStatus = 'open' | 'resolved' | 'dismissed'
+
+export interface Report {
+  id: number;
+  bid: number;
+  /** 被举报的评论编号，举报瓶子时为 0 */
+  cid: number;
+  platform: string;
+  uid: string;
+  reason: string;
+  status: ReportStatus;
+  time: number;
+}
+
+export interface Pick {
+  id: number;
+  bid: number;
+  platform: string;
+  uid: string;
+  time: Date;
+}
+
+/** 用户对瓶子或评论的点赞或表情回应，每个用户对每个瓶子或评论只有一条 */
+export interface Reaction {
+  bid: number;
+  /** 回应的评论编号，回应瓶子时为 0 */
+  cid: number;
+  platform: string;
+  uid: string;
+  /** 点赞为 like，其余为表情 */
+  reaction: string;
+  time: Date;
+}
+
+export interface BottleTag {
+  bid: number;
+  tag: string;
+}
+
+/** 标签的最大长度，与 bottle_tag 表的字段长度一致 */
+export const maxTagLength = 16
+
+export type RankingType = 'likes' | 'comments' | 'picks'
+export type RankingPeriod = 'day' | 'week' | 'all'
+
+/** 机器人发出的消息与瓶子或评论的对应关系，用于引用回复 */
+export interface MessageLink {
+  platform: string;
+  channelId: string;
+  messageId: string;
+  bid: number;
+  /** 对应的评论编号，对应瓶子本身时为 0 */
+  cid: number;
+  time: Date;
+}
+
+export class DriftBottleError extends Error {
+  name = "DriftBottleError"
+
+  constructor(public code: DriftBottleError.Code, message: string) {
+    super(message)
+  }
+}
+
+export namespace DriftBottleError {
+  export type Code =
+    | 'bottle-not-found'
+    | 'comment-not-found'
+    | 'no-bottles'
+    | 'invalid-name'
+    | 'cancelled'
+    | 'content-too-short'
+    | 'content-too-long'
+    | 'unsupported-media'
+    | 'too-many-media'
+    | 'media-too-large'
+    | 'media-failed'
+    | 'not-pending'
+    | 'already-reported'
+    | 'filtered'
+    | 'report-not-found'
+    | 'self-reaction'
+    | 'invalid-tag'
+    | 'too-many-tags'
+    | 'no-bot'
+}
+
+export namespace DriftBottle {
+  export interface Author {
+    /** 不填时使用 session 的平台 */
+    platform?: string
+    uid: string
+    gid?: string
+    cnid?: string
+    username: string
+  }
+
+  export interface DropOptions extends Author {
+    content: string
+    name?: string
+    tags?: string[]
+  }
+
+  export interface CommentOptions extends Author {
+    content: string
+    /** 要回复的评论编号 */
+    replyId?: number
+  }
+
+  export interface Thread extends Comment {
+    /** 回复的层数，直接评论瓶子时为 0 */
+    depth: number
+    parent?: Comment
+  }
+
+  export interface SearchQuery {
+    keyword: string
+    /** 作者的用户ID */
+    uid?: string
+    /** 日期范围，为 Time.getDateNumber() 返回的天数 */
+    since?: number
+    until?: number
+    /** 只搜索精选瓶子 */
+    hot?: boolean
+    /** 是否同时搜索评论 */
+    comments?: boolean
+  }
+
+  export interface SearchResult {
+    bottle: Bottle
+    /** 匹配的是评论时为该评论 */
+    comment?: Comment
+  }
+
+  export interface Picker {
+    platform: string
+    uid: string
+  }
+
+  export interface ListQuery {
+    uid?: string
+    /** 标题包含的文本 */
+    name?: string
+    /** 只列出精选瓶子 */
+    hot?: boolean
+    /** 审核状态，默认只列出已通过审核的瓶子 */
+    status?: ReviewStatus[]
+    /** 是否包括因举报被隐藏的瓶子 */
+    includeHidden?: boolean
+    /** 是否包括已沉底的瓶子 */
+    includeSunk?: boolean
+  }
+}
+
+export class DriftBottle extends Service {
+  static inject = {
+    database: { required: true },
+    notifier: { required: true },
+    assets: { required: false },
+    canvas: { required: false },
+  }
+
+  filter: ContentFilter
+  limiter: RateLimiter
+  media: MediaStore
+  delivery: Delivery
+  stats: Statistics
+  searchIndex: SearchIndex
+  archive: Archiver
+  migrator: Migrator
+  notifications: Notifications
+  scheduler: Scheduler
+  private queueNotifier: ReturnType<Context["notifier"]["create"]>
+  private cleanupNotifier: ReturnType<Context["notifier"]["create"]>
+
+  constructor(ctx: Context, public config: Config) {
+    super(ctx, 'driftbottle')
+    extendTables(ctx)
+    this.filter = new ContentFilter(ctx, config)
+    this.limiter = new RateLimiter(ctx, config)
+    this.media = new MediaStore(ctx, config)
+    this.delivery = new Delivery(ctx, config)
+    this.stats = new Statistics(ctx)
+    this.searchIndex = new SearchIndex(ctx)
+    this.archive = new Archiver(ctx, this)
+    this.migrator = new Migrator(ctx, this)
+    this.notifications = new Notifications(ctx, this)
+    this.scheduler = new Scheduler(ctx, this)
+    if (config.review) this.queueNotifier = ctx.notifier.create()
+  }
+
+  async start() {
+    if (this.config.cleanupInterval > 0 && (this.config.bottleLifetime > 0 || this.config.maxPicks > 0)) {
+      this.cleanupNotifier = this.ctx.notifier.create()
+      this.ctx.setInterval(() => this.cleanup().catch((e) => {
+        this.ctx.logger("re-driftbottle").warn(`清理过期瓶子失败：${this.config.debugMode ? e.stack : e.name + ": " + e.message}`)
+      }), this.config.cleanupInterval * Time.hour)
+    }
+    if (this.config.messageTTL > 0) {
+      this.ctx.setInterval(() => this.pruneMessages().catch((e) => {
+        this.ctx.logger("re-driftbottle").warn(`清理过期的消息记录失败：${this.config.debugMode ? e.stack : e.name + ": " + e.message}`)
+      }), Time.hour)
+      await this.pruneMessages()
+    }
+    if (this.config.review) await this.updateQueue()
+
+    // 数据迁移在后台分批进行，不阻塞插件启动
+    this.migrator.run().catch((e) => {
+      this.ctx.logger("re-driftbottle").warn(`数据迁移失败：${this.config.debugMode ? e.stack : e.name + ": " + e.message}`)
+    })
+  }
+
+  /** 获取用户的漂流瓶角色，没有角色时返回 undefined */
+  async getRole(platform: string, userId: string): Promise<Role> {
+    if (this.config.manager.includes(userId)) return "owner"
+    let level = 0
+    for (let entry of this.config.roles) {
+      if (entry.userId !== userId || (entry.platform && entry.platform !== platform)) continue
+      level = Math.max(level, roleLevel[entry.role])
+    }
+    if (Object.values(this.config.authority).some((authority) => authority > 0)) {
+      const user = await this.ctx.database.getUser(platform, userId, ["authority"])
+      for (let [role, authority] of Object.entries(this.config.authority)) {
+        if (authority > 0 && user?.authority >= authority) level = Math.max(level, roleLevel[role])
+      }
+    }
+    return (Object.keys(roleLevel) as Role[]).find((role) => roleLevel[role] === level)
+  }
+
+  async hasPermission(session: Session, permission: Permission) {
+    const role = await this.getRole(session.platform, session.userId)
+    return !!role && roleLevel[role] >= roleLevel[this.config.permissions[permission]]
+  }
+
+  /** 检查频率限制和每日次数上限，超出时返回提示；拥有 bypass-limit 权限的用户不受限制 */
+  async checkLimit(session: Session, action: LimitAction) {
+    if (await this.hasPermission(session, 'bypass-limit')) return
+    return await this.limiter.check(session, action)
+  }
+
+  async recordLimit(session: Session, action: LimitAction) {
+    if (await this.hasPermission(session, 'bypass-limit')) return
+    await this.limiter.record(session, action)
+  }
+
+  async get(id: number) {
+    const bottle = (await this.ctx.database.get("bottle", { id }))[0]
+    if (!bottle) throw new DriftBottleError('bottle-not-found', "没有这个瓶子！")
+    return bottle
+  }
+
+  /** 随机捞一个瓶子，传入 picker 时会避开其自己的瓶子和最近捞到过的瓶子，传入 tag 时只捞带有该标签的瓶子 */
+  async pick(picker?: DriftBottle.Picker, tag?: string) {
+    let query: Query<Bottle> = { status: "approved", hidden: 0, sunk: 0 }
+    if (picker && !this.config.pickOwn) query.uid = { $ne: picker.uid }
+    if (tag) {
+      const tagged = await this.ctx.database.get("bottle_tag", { tag }, ["bid"])
+      query = { $and: [query, { id: { $in: tagged.map((row) => row.bid) } }] }
+    }
+
+    if (picker && this.config.pickHistory > 0) {
+      const seen = (await this.ctx.database
+        .select("bottle_pick")
+        .where({ platform: picker.platform, uid: picker.uid })
+        .orderBy("id", "desc")
+        .limit(this.config.pickHistory)
+        .execute()).map((pick) => pick.bid)
+      const unseen: Query<Bottle> = { ...query, id: { $nin: seen } }
+      if (seen.length > 0 && await this.countWhere(unseen) > 0) query = unseen
+    }
+
+    // 抽中的瓶子可能恰好在查询间隙被删除，此时重新抽取
+    for (let retry = 0; retry <= this.config.maxRetry; retry++) {
+      const id = await this.sample(query)
+      if (id === undefined) break
+      const bottle = (await this.ctx.database.get("bottle", { ...query, id }))[0]
+      if (bottle) return bottle
+    }
+    throw new DriftBottleError('no-bottles', "没有瓶子了！")
+  }
+
+  /**
+   * 记录用户看到了某个瓶子，并触发 driftbottle/picked 事件；
+   * random 为 false 时为按编号或标题查看，不计入被捞记录和被捞次数
+   */
+  async markPicked(bottle: Bottle, session?: Session, random = true) {
+    if (random && session) {
+      await this.ctx.database.create("bottle_pick", {
+        bid: bottle.id,
+        platform: session.platform,
+        uid: session.userId,
+        time: new Date(),
+      })
+    }
+    if (random) bottle = await this.updateCounts(bottle, { pickCount: bottle.pickCount + 1 })
+    this.ctx.emit("driftbottle/picked", bottle, session)
+  }
+
+  async list(query: DriftBottle.ListQuery = {}, page = 1, limit = 0) {
+    return await this.ctx.database
+      .select("bottle")
+      .where(this.resolveQuery(query))
+      .orderBy("id", "asc")
+      .limit(limit !== 0 ? limit : Infinity)
+      .offset(limit !== 0 ? (page - 1) * limit : 0)
+      .execute()
+  }
+
+  async count(query: DriftBottle.ListQuery = {}) {
+    return await this.ctx.database
+      .select("bottle")
+      .where(this.resolveQuery(query))
+      .execute((row) => $.count(row.id))
+  }
+
+  async drop(options: DriftBottle.DropOptions, session?: Session) {
+    options = { ...options }
+    const result = await this.ctx.serial("driftbottle/before-drop", options, session)
+    if (result) throw new DriftBottleError('cancelled', typeof result === "string" ? result : "这个漂流瓶被拦截了！")
+
+    let { content, name = "" } = options
+    if (name && !isNaN(+name)) throw new DriftBottleError('invalid-name', "名字不能是纯数字！")
+    content = this.config.allowPic ? content : content.replace(/<.*?>/g, '')
+    if (content.length < 1) throw new DriftBottleError('content-too-short', "内容过短！")
+    this.checkContent(content)
+    const filteredContent = this.applyFilter(content)
+    const filteredName = this.applyFilter(name, true)
+    const tags = this.checkTags(options.tags ?? [])
+    content = filteredContent.content
+    name = filteredName.content
+    const review = this.config.review || filteredContent.review || filteredName.review
+
+    const bottle = await this.ctx.database.create("bottle", {
+      platform: options.platform ?? session?.platform ?? "",
+      uid: options.uid,
+      gid: options.gid,
+      cnid: options.cnid,
+      username: options.username,
+      content,
+      commentCount: 0,
+      likeCount: 0,
+      pickCount: 0,
+      score: 0,
+      status: review ? "pending" : "approved",
+      time: Time.getDateNumber(),
+      name,
+    })
+
+    try {
+      content = await this.storeMedia(content, `${bottle.id}号漂流瓶`)
+    } catch (e) {
+      await this.ctx.database.remove("bottle", { id: bottle.id })
+      this.ctx.logger("re-driftbottle").info(`${bottle.id}号漂流瓶已被删除`)
+      throw e
+    }
+
+    await this.ctx.database.set("bottle", { id: bottle.id }, { content })
+    await this.searchIndex.update(bottle.id, 0, name + "\n" + plainText(content))
+    if (tags.length > 0) await this.ctx.database.upsert("bottle_tag", tags.map((tag) => ({ bid: bottle.id, tag })))
+    const dropped = { ...bottle, content }
+    this.ctx.emit("driftbottle/dropped", dropped, session)
+    if (dropped.status === "pending") await this.updateQueue(true)
+    return dropped
+  }
+
+  async rename(id: number, name: string) {
+    const bottle = await this.get(id)
+    if (!isNaN(+name)) throw new DriftBottleError('invalid-name', "名字不能是纯数字！")
+    const filtered = this.applyFilter(name, true)
+    if (!filtered.review) {
+      await this.ctx.database.set("bottle", { id }, { name: filtered.content })
+      await this.searchIndex.update(id, 0, filtered.content + "\n" + plainText(bottle.content))
+      return
+    }
+    await this.ctx.database.set("bottle", { id }, { name, status: "pending" })
+    await this.searchIndex.update(id, 0, name + "\n" + plainText(bottle.content))
+    await this.updateQueue(true)
+  }
+
+  async getTags(bid: number) {
+    return (await this.ctx.database.get("bottle_tag", { bid })).map((row) => row.tag)
+  }
+
+  /** 替换瓶子的标签，返回整理后的标签 */
+  async setTags(bid: number, tags: string[]) {
+    await this.get(bid)
+    tags = this.checkTags(tags)
+    await this.ctx.database.remove("bottle_tag", { bid })
+    if (tags.length > 0) await this.ctx.database.upsert("bottle_tag", tags.map((tag) => ({ bid, tag })))
+    return tags
+  }
+
+  /** 统计每个标签下可以被捞到的瓶子数量，配置了标签列表时也会列出没有瓶子的标签 */
+  async tagCounts() {
+    const visible = await this.ctx.database.get("bottle", { status: "approved", hidden: 0, sunk: 0 }, ["id"])
+    const rows = await this.ctx.database
+      .select("bottle_tag")
+      .where({ bid: { $in: visible.map((bottle) => bottle.id) } })
+      .groupBy("tag", { count: (row) => $.count(row.bid) })
+      .execute()
+    const counts: Dict<number> = Object.fromEntries(this.config.tags.map((tag) => [tag, 0]))
+    for (const row of rows) counts[row.tag] = row.count
+    return counts
+  }
+
+  async feature(id: number, session?: Session) {
+    const bottle = await this.get(id)
+    await this.ctx.database.set("bottle", { id }, { isHot: 1 })
+    this.ctx.emit("driftbottle/featured", { ...bottle, isHot: 1 }, session)
+  }
+
+  async remove(id: number, session?: Session) {
+    const bottle = await this.get(id)
+    const comments = await this.ctx.database.get("comment", { bid: id })
+    await this.media.releaseContent(bottle.content)
+    for (let comment of comments) {
+      await this.media.releaseContent(comment.content)
+    }
+    await this.ctx.database.remove("bottle", { id })
+    await this.ctx.database.remove("comment", { bid: id })
+    await this.ctx.database.remove("bottle_report", { bid: id })
+    await this.ctx.database.remove("bottle_pick", { bid: id })
+    await this.ctx.database.remove("bottle_message", { bid: id })
+    await this.ctx.database.remove("bottle_reaction", { bid: id })
+    await this.ctx.database.remove("bottle_view", { bid: id })
+    await this.searchIndex.remove(id)
+    await this.ctx.database.remove("bottle_tag", { bid: id })
+    this.ctx.emit("driftbottle/deleted", bottle, session)
+    return bottle
+  }
+
+  async getComment(bid: number, cid: number) {
+    const comment = (await this.ctx.database.get("comment", { bid, cid }))[0]
+    if (!comment) throw new DriftBottleError('comment-not-found', "没有这条评论！")
+    return comment
+  }
+
+  /** 按楼层顺序列出评论，回复紧跟在被回复的评论之后 */
+  async comments(bid: number, page = 1, limit = 0) {
+    const comments = await this.ctx.database
+      .select("comment")
+      .where({ bid, status: "approved", hidden: 0 })
+      .orderBy("cid", "asc")
+      .execute()
+    const byCid = new Map(comments.map((comment) => [comment.cid, comment]))
+    const children = new Map<number, Comment[]>()
+    for (const comment of comments) {
+      // 被回复的评论不可见时，回复显示为顶层评论
+      const parent = byCid.has(comment.parentCid) ? comment.parentCid : 0
+      if (!children.has(parent)) children.set(parent, [])
+      children.get(parent).push(comment)
+    }
+    const threads: DriftBottle.Thread[] = []
+    const walk = (parentCid: number, depth: number) => {
+      for (const comment of children.get(parentCid) ?? []) {
+        threads.push({ ...comment, depth, parent: byCid.get(comment.parentCid) })
+        walk(comment.cid, depth + 1)
+      }
+    }
+    walk(0, 0)
+    return limit !== 0 ? threads.slice((page - 1) * limit, page * limit) : threads
+  }
+
+  async countComments(bid: number) {
+    return await this.ctx.database
+      .select("comment")
+      .where({ bid, status: "approved", hidden: 0 })
+      .execute((row) => $.count(row.id))
+  }
+
+  async comment(bid: number, options: DriftBottle.CommentOptions, session?: Session) {
+    const bottle = await this.get(bid)
+    if (bottle.status !== "approved" || bottle.hidden) throw new DriftBottleError('bottle-not-found', "没有这个瓶子！")
+    let reply: Comment
+    if (options.replyId > 0) reply = await this.getComment(bid, options.replyId)
+    if (reply && (reply.status !== "approved" || reply.deleted)) throw new DriftBottleError('comment-not-found', "没有这条评论！")
+
+    let content = this.config.allowPic ? options.content : options.content.replace(/<.*?>/g, '')
+    if (content.includes("<audio ") || content.includes("<video ")) throw new DriftBottleError('unsupported-media', "评论暂不支持音频或视频！")
+    if (content.length < 1) throw new DriftBottleError('content-too-short', "内容过短！")
+    this.checkContent(content)
+    const filtered = this.applyFilter(content)
+    content = "“" + filtered.content + "”"
+
+    let data = await this.ctx.database.get("comment", { bid })
+    let cid = data.length === 0 ? 1 : Math.max(...data.map(c => c.cid)) + 1
+    const comment = await this.ctx.database.create("comment", {
+      cid,
+      bid,
+      parentCid: reply?.cid ?? 0,
+      platform: options.platform ?? session?.platform ?? "",
+      uid: options.uid,
+      gid: options.gid,
+      cnid: options.cnid,
+      username: options.username,
+      content,
+      status: this.config.review || filtered.review ? "pending" : "approved",
+      time: Time.getDateNumber(),
+    })
+
+    try {
+      content = await this.storeMedia(content, `${bid}号漂流瓶中的${cid}号评论`)
+    } catch (e) {
+      await this.ctx.database.remove("comment", { id: comment.id })
+      this.ctx.logger("re-driftbottle").info(`${bid}号漂流瓶中的${cid}号评论已被删除`)
+      throw e
+    }
+
+    if (content !== comment.content) {
+      await this.ctx.database.set("comment", { id: comment.id }, { content })
+    }
+    await this.searchIndex.update(bid, cid, plainText(content))
+    const created = { ...comment, content }
+    if (created.status === "pending") {
+      await this.updateQueue(true)
+      return created
+    }
+    this.ctx.emit("driftbottle/commented", created, await this.updateCounts(bottle, { commentCount: bottle.commentCount + 1 }), session)
+    return created
+  }
+
+  /** 列出评论下的所有回复（包括回复的回复） */
+  async replies(bid: number, cid: number) {
+    const comments = await this.ctx.database.get("comment", { bid })
+    const result: Comment[] = []
+    const walk = (parentCid: number) => {
+      for (const comment of comments.filter((comment) => comment.parentCid === parentCid)) {
+        result.push(comment)
+        walk(comment.cid)
+      }
+    }
+    walk(cid)
+    return result
+  }
+
+  /**
+   * 删除评论。评论有回复时，mode 为 cascade 会连同所有回复一起删除，
+   * 为 placeholder 则只删除这条评论的内容，保留“[已删除]”占位以便显示回复
+   */
+  async removeComment(bid: number, cid: number, mode: 'cascade' | 'placeholder' = 'placeholder') {
+    const comment = await this.getComment(bid, cid)
+    const replies = await this.replies(bid, cid)
+    let removed = 0
+    if (replies.length > 0 && mode === "placeholder") {
+      await this.media.releaseContent(comment.content)
+      await this.ctx.database.set("comment", { id: comment.id }, { content: "[已删除]", deleted: 1 })
+      await this.ctx.database.remove("bottle_report", { bid, cid })
+      await this.ctx.database.remove("bottle_message", { bid, cid })
+      await this.searchIndex.remove(bid, cid)
+      if (comment.status === "approved" && !comment.deleted) removed++
+    } else {
+      for (const target of [comment, ...(mode === "cascade" ? replies : [])]) {
+        await this.media.releaseContent(target.content)
+        await this.ctx.database.remove("comment", { id: target.id })
+        await this.ctx.database.remove("bottle_report", { bid, cid: target.cid })
+        await this.ctx.database.remove("bottle_message", { bid, cid: target.cid })
+        await this.ctx.database.remove("bottle_reaction", { bid, cid: target.cid })
+        await this.searchIndex.remove(bid, target.cid)
+        if (target.status === "approved" && !target.deleted) removed++
+      }
+    }
+    const bottle = (await this.ctx.database.get("bottle", { id: bid }))[0]
+    if (bottle && removed > 0) {
+      await this.updateCounts(bottle, { commentCount: Math.max(bottle.commentCount - removed, 0) })
+    }
+
+    // 占位评论的回复都被删除后，占位评论也没有保留的必要了
+    const parent = (await this.ctx.database.get("comment", { bid, cid: comment.parentCid }))[0]
+    if (parent?.deleted && (await this.replies(bid, parent.cid)).length === 0) {
+      await this.removeComment(bid, parent.cid)
+    }
+    return comment
+  }
+
+  /** 列出审核队列中的瓶子和评论 */
+  async pending() {
+    const bottles = await this.ctx.database.get("bottle", { status: "pending" })
+    const comments = await this.ctx.database.get("comment", { status: "pending" })
+    return { bottles, comments }
+  }
+
+  /** 审核瓶子（cid 为 0）或评论，并将结果告知作者 */
+  async review(bid: number, cid: number, approved: boolean, reason?: string) {
+    const status: ReviewStatus = approved ? "approved" : "rejected"
+    const result = approved ? "已通过审核！" : `未通过审核${reason ? `，理由：${reason}` : "！"}`
+    if (cid) {
+      const comment = await this.getComment(bid, cid)
+      if (comment.status !== "pending") throw new DriftBottleError('not-pending', "这条评论不在审核队列中！")
+      await this.ctx.database.set("comment", { id: comment.id }, { status })
+      if (approved) {
+        const bottle = await this.get(bid)
+        this.ctx.emit("driftbottle/commented", { ...comment, status }, await this.updateCounts(bottle, { commentCount: bottle.commentCount + 1 }))
+      }
+      await this.updateQueue()
+      await this.notify(comment, `你在${bid}号漂流瓶下的${cid}号评论${result}`)
+      return { ...comment, status }
+    }
+    const bottle = await this.get(bid)
+    if (bottle.status !== "pending") throw new DriftBottleError('not-pending', "这个瓶子不在审核队列中！")
+    await this.ctx.database.set("bottle", { id: bid }, { status })
+    await this.updateQueue()
+    await this.notify(bottle, `你的${bid}号漂流瓶${result}`)
+    return { ...bottle, status }
+  }
+
+  /** 删除指定天数前扔出的瓶子以及它们的评论和本地静态资源，返回被删除的瓶子 */
+  async removeExpired(days: number) {
+    const bottles = await this.ctx.database.get("bottle", { time: { $lt: Time.getDateNumber() - days } }, ["id"])
+    const removed: Bottle[] = []
+    for (const { id } of bottles) {
+      try {
+        removed.push(await this.remove(id))
+      } catch (e) {
+        this.ctx.logger("re-driftbottle").warn(`${id}号漂流瓶删除失败：${this.config.debugMode ? e.stack : e.name + ": " + e.message}`)
+      }
+    }
+    return removed
+  }
+
+  /**
+   * 清理超过存活时间或被捞次数达到上限的瓶子，精选瓶子不受影响
+   *
+   * expireMode 为 archive 时瓶子只会沉底，不再被随机捞到；为 delete 时连同评论和本地静态资源一起删除
+   */
+  async cleanup() {
+    const hot = { $or: [{ isHot: 1 }, { score: { $gte: this.config.hotThresholdValue } }] }
+    const candidates = new Set<number>()
+    if (this.config.bottleLifetime > 0) {
+      const expired = await this.ctx.database.get("bottle", {
+        $not: hot,
+        sunk: 0,
+        time: { $lt: Time.getDateNumber() - this.config.bottleLifetime },
+      }, ["id"])
+      for (const { id } of expired) candidates.add(id)
+    }
+    if (this.config.maxPicks > 0) {
+      const picks = await this.ctx.database
+        .select("bottle_pick")
+        .groupBy("bid", { count: (row) => $.count(row.id) })
+        .execute()
+      const worn = picks.filter((pick) => pick.count >= this.config.maxPicks).map((pick) => pick.bid)
+      if (worn.length > 0) {
+        const bottles = await this.ctx.database.get("bottle", { $not: hot, sunk: 0, id: { $in: worn } }, ["id"])
+        for (const { id } of bottles) candidates.add(id)
+      }
+    }
+
+    const ids = [...candidates]
+    if (ids.length > 0 && this.config.expireMode === "archive") {
+      await this.ctx.database.set("bottle", { id: { $in: ids } }, { sunk: 1 })
+    } else {
+      for (const id of ids) {
+        try {
+          await this.remove(id)
+        } catch (e) {
+          this.ctx.logger("re-driftbottle").warn(`${id}号漂流瓶删除失败：${this.config.debugMode ? e.stack : e.name + ": " + e.message}`)
+        }
+      }
+    }
+
+    const action = this.config.expireMode === "archive" ? "沉底" : "删除"
+    const time = new Date().toLocaleString()
+    this.cleanupNotifier?.update(ids.length > 0
+      ? `${time} 自动清理：${action}了${ids.length}个瓶子（${ids.join(", ")}）`
+      : `${time} 自动清理：没有需要${action}的瓶子`)
+    if (ids.length > 0) this.ctx.logger("re-driftbottle").info(`自动清理：${action}了${ids.join(", ")}号漂流瓶`)
+    return ids
+  }
+
+  /** 记录机器人发出的消息对应的瓶子或评论，之后引用这些消息即可评论或回复 */
+  async linkMessages(platform: string, channelId: string, messageIds: string[], bid: number, cid = 0) {
+    if (!messageIds?.length) return
+    const time = new Date()
+    await this.ctx.database.upsert("bottle_message", messageIds.map((messageId) => ({ platform, channelId, messageId, bid, cid, time })))
+  }
+
+  /** 查找消息对应的瓶子或评论，没有记录或已过期时返回 undefined */
+  async resolveMessage(platform: string, channelId: string, messageId: string) {
+    const link = (await this.ctx.database.get("bottle_message", { platform, channelId, messageId }))[0]
+    if (!link) return
+    if (this.config.messageTTL > 0 && +link.time < Date.now() - this.config.messageTTL * Time.day) return
+    return link
+  }
+
+  /** 删除超过 messageTTL 天的消息记录 */
+  async pruneMessages() {
+    await this.ctx.database.remove("bottle_message", { time: { $lt: new Date(Date.now() - this.config.messageTTL * Time.day) } })
+  }
+
+  /**
+   * 点赞或用表情回应瓶子（cid 为 0）或评论，再次进行相同的回应则取消，
+   * 返回回应后的结果，取消时返回 undefined
+   */
+  async react(bid: number, cid: number, picker: DriftBottle.Picker, reaction = "like", session?: Session) {
+    const bottle = await this.get(bid)
+    if (bottle.status !== "approved" || bottle.hidden) throw new DriftBottleError('bottle-not-found', "没有这个瓶子！")
+    const comment = cid ? await this.getComment(bid, cid) : undefined
+    if (comment && (comment.status !== "approved" || comment.hidden || comment.deleted)) throw new DriftBottleError('comment-not-found', "没有这条评论！")
+    if ((comment ?? bottle).uid === picker.uid) throw new DriftBottleError('self-reaction', "不能给自己点赞哦！")
+
+    const key = { bid, cid, platform: picker.platform, uid: picker.uid }
+    const existing = (await this.ctx.database.get("bottle_reaction", key))[0]
+    let result: Reaction
+    if (existing?.reaction === reaction) {
+      await this.ctx.database.remove("bottle_reaction", key)
+    } else {
+      result = { ...key, reaction, time: new Date() }
+      await this.ctx.database.upsert("bottle_reaction", [result])
+    }
+
+    // 只有点赞计入点赞数，在点赞和表情之间切换时也要增减
+    const delta = (result?.reaction === "like" ? 1 : 0) - (existing?.reaction === "like" ? 1 : 0)
+    if (delta && comment) {
+      await this.ctx.database.set("comment", { id: comment.id }, { likeCount: Math.max(comment.likeCount + delta, 0) })
+    } else if (delta) {
+      await this.updateCounts(bottle, { likeCount: Math.max(bottle.likeCount + delta, 0) })
+    }
+    if (result) this.ctx.emit("driftbottle/reacted", result, bottle, session)
+    return result
+  }
+
+  /** 统计瓶子（cid 为 0）或评论收到的各种回应的数量 */
+  async reactions(bid: number, cid = 0) {
+    const rows = await this.ctx.database
+      .select("bottle_reaction")
+      .where({ bid, cid })
+      .groupBy("reaction", { count: (row) => $.count(row.uid) })
+      .execute()
+    return Object.fromEntries(rows.map((row) => [row.reaction, row.count])) as Dict<number>
+  }
+
+  /** 按点赞数、评论数或被捞次数对瓶子排名，period 为统计的时间范围，day 为今天，week 为包括今天在内的最近7天 */
+  async ranking(type: RankingType, period: RankingPeriod = "all", limit = 10) {
+    // 评论只记录了日期，统一按自然日统计
+    const sinceDay = period === "all" ? 0 : Time.getDateNumber() - (period === "day" ? 0 : 6)
+    const since = Time.fromDateNumber(sinceDay)
+    let rows: { bid: number, count: number }[]
+    if (type === "likes") {
+      rows = await this.ctx.database
+        .select("bottle_reaction")
+        .where({ cid: 0, reaction: "like", time: { $gte: since } })
+        .groupBy("bid", { count: (row) => $.count(row.uid) })
+        .execute()
+    } else if (type === "picks") {
+      rows = await this.ctx.database
+        .select("bottle_pick")
+        .where({ time: { $gte: since } })
+        .groupBy("bid", { count: (row) => $.count(row.id) })
+        .execute()
+    } else {
+      rows = await this.ctx.database
+        .select("comment")
+        .where({ status: "approved", hidden: 0, deleted: 0, time: { $gte: sinceDay } })
+        .groupBy("bid", { count: (row) => $.count(row.id) })
+        .execute()
+    }
+    rows.sort((a, b) => b.count - a.count)
+    const bottles = await this.ctx.database.get("bottle", {
+      id: { $in: rows.map((row) => row.bid) },
+      status: "approved",
+      hidden: 0,
+    })
+    const byId = new Map(bottles.map((bottle) => [bottle.id, bottle]))
+    return rows
+      .filter((row) => byId.has(row.bid))
+      .slice(0, limit)
+      .map((row) => ({ bottle: byId.get(row.bid), count: row.count }))
+  }
+
+  /** 按关键词搜索瓶子的标题和正文，可以同时搜索评论；关键词按字面匹配，不区分大小写 */
+  async search(query: DriftBottle.SearchQuery, page = 1, limit = 0) {
+    const keyword = query.keyword.trim().toLowerCase()
+    if (!keyword) throw new DriftBottleError('content-too-short', "请输入关键词！")
+    const candidates = await this.searchIndex.candidates(keyword)
+    const pattern = { $regex: new RegExp(escapeRegExp(keyword), "i") }
+    const time: Query.FieldExpr<number> = {}
+    if (query.since) time.$gte = query.since
+    if (query.until) time.$lte = query.until
+    const range = Object.keys(time).length > 0 ? { time } : {}
+
+    const bottleQuery: Query.Expr<Bottle>[] = [this.resolveQuery({ uid: query.uid, hot: query.hot }), range]
+    bottleQuery.push(candidates
+      ? { id: { $in: candidates.filter(([, cid]) => cid === 0).map(([bid]) => bid) } }
+      : { $or: [{ name: pattern }, { content: pattern }] })
+    const results: DriftBottle.SearchResult[] = (await this.ctx.database.get("bottle", { $and: bottleQuery }))
+      .filter((bottle) => (bottle.name + "\n" + plainText(bottle.content)).toLowerCase().includes(keyword))
+      .map((bottle) => ({ bottle }))
+
+    if (query.comments) {
+      const pairs = candidates?.filter(([, cid]) => cid > 0)
+      const keys = pairs && new Set(pairs.map(([bid, cid]) => `${bid}:${cid}`))
+      const comments = (await this.ctx.database.get("comment", {
+        status: "approved",
+        hidden: 0,
+        deleted: 0,
+        ...range,
+        ...(query.uid ? { uid: query.uid } : {}),
+        ...(pairs ? { bid: { $in: [...new Set(pairs.map(([bid]) => bid))] } } : { content: pattern }),
+      })).filter((comment) => (!keys || keys.has(`${comment.bid}:${comment.cid}`)) && plainText(comment.content).toLowerCase().includes(keyword))
+      const bottles = await this.ctx.database.get("bottle", {
+        $and: [this.resolveQuery({ hot: query.hot }), { id: { $in: [...new Set(comments.map((comment) => comment.bid))] } }],
+      })
+      const byId = new Map(bottles.map((bottle) => [bottle.id, bottle]))
+      for (const comment of comments) {
+        if (byId.has(comment.bid)) results.push({ bottle: byId.get(comment.bid), comment })
+      }
+    }
+
+    results.sort((a, b) => b.bottle.id - a.bottle.id || (a.comment?.cid ?? 0) - (b.comment?.cid ?? 0))
+    return {
+      total: results.length,
+      results: limit !== 0 ? results.slice((page - 1) * limit, page * limit) : results,
+    }
+  }
+
+  /**
+   * 按评论、点赞和被捞记录重新统计瓶子的计数并计算热度分数，返回处理的瓶子数量；
+   * 不指定 ids 时处理所有瓶子，comments 为 false 时保留现有的评论数
+   */
+  async recount(options: { ids?: number[], comments?: boolean } = {}) {
+    const { ids, comments = true } = options
+    const where = ids ? { bid: { $in: ids } } : {}
+    const toMap = (rows: { bid: number, count: number }[]) => new Map(rows.map((row) => [row.bid, row.count]))
+    const picks = toMap(await this.ctx.database.select("bottle_pick", where).groupBy("bid", { count: (row) => $.count(row.id) }).execute())
+    const likes = toMap(await this.ctx.database.select("bottle_reaction", { ...where, cid: 0, reaction: "like" }).groupBy("bid", { count: (row) => $.count(row.uid) }).execute())
+    const commentCounts = comments && toMap(await this.ctx.database
+      .select("comment", { ...where, status: "approved", deleted: 0 })
+      .groupBy("bid", { count: (row) => $.count(row.id) })
+      .execute())
+    const counted = (await this.ctx.database.get("bottle", ids ? { id: { $in: ids } } : {})).map((bottle) => {
+      const updated = {
+        ...bottle,
+        commentCount: commentCounts ? commentCounts.get(bottle.id) ?? 0 : bottle.commentCount,
+        pickCount: picks.get(bottle.id) ?? 0,
+        likeCount: likes.get(bottle.id) ?? 0,
+      }
+      const { id, commentCount, pickCount, likeCount } = updated
+      return { id, commentCount, pickCount, likeCount, score: this.score(updated) }
+    })
+    if (counted.length > 0) await this.ctx.database.upsert("bottle", counted)
+    return counted.length
+  }
+
+  /** 用当前的过滤规则重新检查所有瓶子和评论，返回被处理的瓶子和评论数量 */
+  async rescan() {
+    this.filter.reload()
+    const action = this.config.filterAction
+    const demote = { status: action === "reject" ? "rejected" : "pending" } as const
+    let bottleCount = 0
+    let commentCount = 0
+    for (const bottle of await this.ctx.database.get("bottle", {})) {
+      const content = this.filter.check(bottle.content)
+      const nameHit = this.filter.test(bottle.name)
+      if (!content.hit && !nameHit) continue
+      if (action !== "mask" && bottle.status !== "approved") continue
+      bottleCount++
+      if (action === "mask") {
+        const name = this.filter.mask(bottle.name)
+        await this.ctx.database.set("bottle", { id: bottle.id }, { content: content.content, name })
+        await this.searchIndex.update(bottle.id, 0, name + "\n" + plainText(content.content))
+      } else {
+        await this.ctx.database.set("bottle", { id: bottle.id }, demote)
+      }
+    }
+    for (const comment of await this.ctx.database.get("comment", {})) {
+      const content = this.filter.check(comment.content)
+      if (!content.hit) continue
+      if (action !== "mask" && comment.status !== "approved") continue
+      commentCount++
+      if (action === "mask") {
+        await this.ctx.database.set("comment", { id: comment.id }, { content: content.content })
+        await this.searchIndex.update(comment.bid, comment.cid, plainText(content.content))
+        continue
+      }
+      await this.ctx.database.set("comment", { id: comment.id }, demote)
+      const bottle = (await this.ctx.database.get("bottle", { id: comment.bid }))[0]
+      if (bottle) await this.updateCounts(bottle, { commentCount: Math.max(bottle.commentCount - 1, 0) })
+    }
+    if (action === "review" && bottleCount + commentCount > 0) await this.updateQueue(true)
+    return { bottles: bottleCount, comments: commentCount }
+  }
+
+  /** 举报瓶子（cid 为 0）或评论，不同举报人数达到阈值时自动隐藏，返回内容是否已被隐藏 */
+  async report(bid: number, cid: number, reporter: { platform: string, uid: string }, reason = "") {
+    const target = cid ? await this.getComment(bid, cid) : await this.get(bid)
+    const reports = await this.ctx.database.get("bottle_report", { bid, cid, status: "open" })
+    if (reports.some((report) => report.platform === reporter.platform && report.uid === reporter.uid)) {
+      throw new DriftBottleError('already-reported', "你已经举报过了！")
+    }
+    await this.ctx.database.create("bottle_report", {
+      bid,
+      cid,
+      platform: reporter.platform,
+      uid: reporter.uid,
+      reason,
+      status: "open",
+      time: Time.getDateNumber(),
+    })
+    if (target.hidden || this.config.reportThreshold === 0 || reports.length + 1 < this.config.reportThreshold) return !!target.hidden
+    if (cid) {
+      await this.ctx.database.set("comment", { bid, cid }, { hidden: 1 })
+    } else {
+      await this.ctx.database.set("bottle", { id: bid }, { hidden: 1 })
+    }
+    this.ctx.logger("re-driftbottle").info(`${cid ? `${bid}号漂流瓶中的${cid}号评论` : `${bid}号漂流瓶`}被举报${reports.length + 1}次，已自动隐藏`)
+    return true
+  }
+
+  /** 列出未处理的举报 */
+  async reports() {
+    return await this.ctx.database
+      .select("bottle_report")
+      .where({ status: "open" })
+      .orderBy("bid", "asc")
+      .orderBy("cid", "asc")
+      .execute()
+  }
+
+  /** 处理对瓶子（cid 为 0）或评论的举报：删除被举报内容，或驳回举报并恢复显示 */
+  async resolveReport(bid: number, cid: number, remove: boolean, session?: Session) {
+    const reports = await this.ctx.database.get("bottle_report", { bid, cid, status: "open" })
+    if (reports.length === 0) throw new DriftBottleError('report-not-found', "没有待处理的举报！")
+    if (remove) {
+      if (cid) {
+        await this.removeComment(bid, cid)
+      } else {
+        await this.remove(bid, session)
+      }
+      return reports
+    }
+    await this.ctx.database.set("bottle_report", { bid, cid, status: "open" }, { status: "dismissed" })
+    if (cid) {
+      await this.ctx.database.set("comment", { bid, cid }, { hidden: 0 })
+    } else {
+      await this.ctx.database.set("bottle", { id: bid }, { hidden: 0 })
+    }
+    return reports
+  }
+
+  /** 按作者的提醒设置把审核结果加入提醒队列 */
+  async notify(target: { platform?: string, uid: string, gid?: string, cnid?: string }, content: string) {
+    await this.notifications.push(target, "review", content)
+  }
+
+  private async updateQueue(grown = false) {
+    const { bottles, comments } = await this.pending()
+    const count = bottles.length + comments.length
+    this.queueNotifier?.update(count > 0 ? `漂流瓶审核队列中有 ${count} 条待审核内容` : "漂流瓶审核队列为空")
+    if (!grown || this.config.reviewNotify === 0 || count % this.config.reviewNotify !== 0) return
+    for (const entry of this.config.roles) {
+      if (!entry.platform || roleLevel[entry.role] < roleLevel[this.config.permissions.review]) continue
+      const bot = this.ctx.bots.find((bot) => bot.platform === entry.platform)
+      try {
+        await bot?.sendPrivateMessage(entry.userId, `漂流瓶审核队列中已有 ${count} 条待审核内容，发送“漂流瓶.审核列表”查看`)
+      } catch (e) {
+        this.ctx.logger("re-driftbottle").warn(`审核提醒发送失败：${this.config.debugMode ? e.stack : e.name + ": " + e.message}`)
+      }
+    }
+  }
+
+  private async countWhere(query: Query<Bottle>) {
+    return await this.ctx.database
+      .select("bottle")
+      .where(query)
+      .execute((row) => $.count(row.id))
+  }
+
+  /** 在满足条件的瓶子中随机抽取一个编号，只读取编号等少量字段 */
+  private async sample(query: Query<Bottle>) {
+    if (!this.config.preferNew && !this.config.preferUnread) {
+      const count = await this.countWhere(query)
+      if (count === 0) return
+      const [row] = await this.ctx.database
+        .select("bottle")
+        .where(query)
+        .orderBy("id", "asc")
+        .offset(Random.int(0, count))
+        .limit(1)
+        .project(["id"])
+        .execute()
+      return row?.id
+    }
+
+    const rows = await this.ctx.database.get("bottle", query, ["id", "time"])
+    if (rows.length === 0) return
+    const weights: Dict<number> = {}
+    for (const row of rows) weights[row.id] = 1
+    if (this.config.preferNew) {
+      const oldest = Math.min(...rows.map((row) => row.time))
+      const newest = Math.max(...rows.map((row) => row.time))
+      for (const row of rows) weights[row.id] *= 1 + (row.time - oldest) / (newest - oldest || 1)
+    }
+    if (this.config.preferUnread) {
+      const counts = await this.ctx.database
+        .select("bottle_pick")
+        .where({ bid: { $in: rows.map((row) => row.id) } })
+        .groupBy("bid", { count: (row) => $.count(row.id) })
+        .execute()
+      for (const { bid, count } of counts) weights[bid] /= 1 + count
+    }
+    return +Random.weightedPick(weights)
+  }
+
+  /** 按 filterAction 处理内容，plain 为 true 时视为纯文本；返回处理后的内容以及是否需要送审 */
+  private applyFilter(content: string, plain = false) {
+    const hit = plain ? this.filter.test(content) : this.filter.check(content).hit
+    if (!hit) return { content, review: false }
+    if (this.config.filterAction === "reject") throw new DriftBottleError('filtered', "内容包含违禁词！")
+    if (this.config.filterAction === "review") return { content, review: true }
+    return { content: plain ? this.filter.mask(content) : this.filter.check(content).content, review: false }
+  }
+
+  private resolveQuery(query: DriftBottle.ListQuery) {
+    const conditions = []
+    conditions.push({ status: { $in: query.status ?? ["approved"] } })
+    if (!query.includeHidden) conditions.push({ hidden: 0 })
+    if (!query.includeSunk) conditions.push({ sunk: 0 })
+    if (query.uid) conditions.push({ uid: query.uid })
+    if (query.name) conditions.push({ name: { $regex: new RegExp(escapeRegExp(query.name)) } })
+    if (query.hot) conditions.push({ $or: [{ isHot: 1 }, { score: { $gte: this.config.hotThresholdValue } }] })
+    return { $and: conditions }
+  }
+
+  private score(bottle: Bottle) {
+    const weights = this.config.hotScore
+    return bottle.commentCount * weights.comments + bottle.likeCount * weights.likes + bottle.pickCount * weights.picks
+  }
+
+  /** 修改瓶子的评论数、点赞数或被捞次数，同时更新热度分数 */
+  private async updateCounts(bottle: Bottle, counts: { commentCount?: number, likeCount?: number, pickCount?: number }) {
+    const updated = { ...bottle, ...counts }
+    updated.score = this.score(updated)
+    await this.ctx.database.set("bottle", { id: bottle.id }, { ...counts, score: updated.score })
+    return updated
+  }
+
+  /** 整理并检查标签：去掉开头的 #、去重，配置了标签列表时只允许列表中的标签 */
+  private checkTags(tags: string[]) {
+    tags = [...new Set(tags.map((tag) => tag.trim().replace(/^#/, "")).filter(Boolean))]
+    for (const tag of tags) {
+      if (tag.length > maxTagLength) {
+        throw new DriftBottleError('invalid-tag', `标签“${tag}”太长了！（最多${maxTagLength}字）`)
+      }
+      if (this.config.tags.length > 0 && !this.config.tags.includes(tag)) {
+        throw new DriftBottleError('invalid-tag', `没有“${tag}”这个标签！可用的标签：${this.config.tags.join("、")}`)
+      }
+    }
+    if (this.config.maxTags > 0 && tags.length > this.config.maxTags) {
+      throw new DriftBottleError('too-many-tags', `最多只能添加${this.config.maxTags}个标签！`)
+    }
+    return tags
+  }
+
+  /** 检查文字长度和静态资源数量 */
+  private checkContent(content: string) {
+    let text = plainText(content)
+    if (text.length > this.config.maxLength) {
+      throw new DriftBottleError('content-too-long', `文字内容过长！（最多${this.config.maxLength}字）`)
+    }
+    let count = h.parse(content).filter((element) => ["img", "audio", "video"].includes(element.type)).length
+    if (this.config.maxMedia && count > this.config.maxMedia) {
+      throw new DriftBottleError('too-many-media', `图片、音频和视频最多只能有${this.config.maxMedia}个！`)
+    }
+  }
+
+  /** 检查静态资源的类型和大小，必要时压缩图片 */
+  private async prepareMedia(buffer: Buffer, mime: string, compress: boolean) {
+    if (!matchType(mime, this.config.mediaTypes)) {
+      throw new DriftBottleError('unsupported-media', `不支持的文件类型：${mime}！`)
+    }
+    if (compress) ({ buffer, mime } = await this.media.compress(buffer, mime))
+    if (this.config.maxFileSize && buffer.length > this.config.maxFileSize * 1024) {
+      throw new DriftBottleError('media-too-large', `文件过大！（单个文件最大${this.config.maxFileSize}KB）`)
+    }
+    return { buffer, mime }
+  }
+
+  /** 按 saveMode 储存内容中的静态资源，返回替换后的内容 */
+  private async storeMedia(content: string, label: string) {
+    let validate = this.config.mediaTypes.length > 0 || this.config.maxFileSize > 0
+    if (this.config.saveMode === "url" && !validate) return content
+    return await this.delivery.run(`${label}资源储存`, async () => {
+      let saved: string[] = []
+      try {
+        let flag = false
+        let elements = h.parse(content)
+        for (let element of elements) {
+          if (!["img", "audio", "video"].includes(element.type) || !element.attrs.src) continue
+          if (this.config.saveMode === "url") {
+            let { buffer, mime } = await this.media.load(element.attrs.src)
+            await this.prepareMedia(buffer, mime, false)
+          } else if (this.config.saveMode === "base64") {
+            if (element.attrs.src.startsWith("data:") && !validate) continue
+            flag = true
+            let loaded = await this.media.load(element.attrs.src)
+            let { buffer, mime } = await this.prepareMedia(loaded.buffer, loaded.mime, true)
+            element.attrs.src = `data:${mime};base64,${buffer.toString("base64")}`
+          } else {
+            flag = true
+            let loaded = await this.media.load(element.attrs.src)
+            let { buffer, mime } = await this.prepareMedia(loaded.buffer, loaded.mime, true)
+            element.attrs.src = await this.media.save(buffer, mime)
+            saved.push(element.attrs.src)
+          }
+        }
+
+        return flag ? elements.join("") : content
+      } catch (e) {
+        for (let src of saved) await this.media.release(src)
+        throw e
+      }
+    }).catch((e) => {
+      if (e instanceof DriftBottleError) throw e
+      throw new DriftBottleError('media-failed', "静态资源无法储存，请查看日志！")
+    })
+  }
+}
+
+function extendTables(ctx: Context) {
+  ctx.model.extend('bottle', {
+    id: 'unsigned',
+    name: 'string',
+    platform: 'string',
+    uid: 'string',
+    gid: 'string',
+    cnid: 'string',
+    username: 'string',
+    content: 'text',
+    isHot: 'unsigned',
+    commentCount: {
+      type: 'integer',
+      length: 16,
+      initial: -1,
+      nullable: true
+    },
+    likeCount: {
+      type: 'unsigned',
+      initial: 0,
+    },
+    pickCount: {
+      type: 'unsigned',
+      initial: 0,
+    },
+    score: {
+      type: 'double',
+      initial: 0,
+    },
+    status: {
+      type: 'string',
+      length: 16,
+      initial: 'approved',
+    },
+    hidden: {
+      type: 'unsigned',
+      initial: 0,
+    },
+    sunk: {
+      type: 'unsigned',
+      initial: 0,
+    },
+    time: 'unsigned',
+  }, {primary: "id", autoInc: true});
+
+  ctx.model.extend('comment', {
+    id: 'unsigned',
+    cid: 'unsigned',
+    bid: 'unsigned',
+    platform: 'string',
+    uid: 'string',
+    gid: 'string',
+    cnid: 'string',
+    username: 'string',
+    content: 'text',
+    status: {
+      type: 'string',
+      length: 16,
+      initial: 'approved',
+    },
+    hidden: {
+      type: 'unsigned',
+      initial: 0,
+    },
+    parentCid: {
+      type: 'unsigned',
+      initial: 0,
+    },
+    deleted: {
+      type: 'unsigned',
+      initial: 0,
+    },
+    likeCount: {
+      type: 'unsigned',
+      initial: 0,
+    },
+    time: 'unsigned',
+  }, {primary: "id", autoInc: true});
+
+  ctx.model.extend('bottle_report', {
+    id: 'unsigned',
+    bid: 'unsigned',
+    cid: 'unsigned',
+    platform: 'string',
+    uid: 'string',
+    reason: 'text',
+    status: {
+      type: 'string',
+      length: 16,
+    },
+    time: 'unsigned',
+  }, {primary: "id", autoInc: true});
+
+  ctx.model.extend('bottle_pick', {
+    id: 'unsigned',
+    bid: 'unsigned',
+    platform: 'string',
+    uid: 'string',
+    time: 'timestamp',
+  }, {primary: "id", autoInc: true});
+
+  ctx.model.extend('bottle_tag', {
+    bid: 'unsigned',
+    tag: {
+      type: 'string',
+      length: maxTagLength,
+    },
+  }, {primary: ["bid", "tag"]});
+
+  ctx.model.extend('bottle_reaction', {
+    bid: 'unsigned',
+    cid: 'unsigned',
+    platform: 'string',
+    uid: 'string',
+    reaction: 'string',
+    time: 'timestamp',
+  }, {primary: ["bid", "cid", "platform", "uid"]});
+
+  ctx.model.extend('bottle_message', {
+    platform: 'string',
+    channelId: 'string',
+    messageId: 'string',
+    bid: 'unsigned',
+    cid: 'unsigned',
+    time: 'timestamp',
+  }, {primary: ["platform", "channelId", "messageId"]});
+}
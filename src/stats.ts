@@ -0,0 +1,162 @@
+import { $, Context, Time } from 'koishi'
+
+declare module 'koishi' {
+  interface Tables {
+    bottle_view: View;
+  }
+}
+
+/** pick 为随机捞到，view 为按编号或标题捞取，random 为随机发送到频道 */
+export type ViewSource = 'pick' | 'view' | 'random'
+
+/** 瓶子被看到的记录，由捞漂流瓶和随机发送产生 */
+export interface View {
+  id: number;
+  bid: number;
+  source: ViewSource;
+  platform: string;
+  channelId: string;
+  /** 随机发送时为空 */
+  uid: string;
+  day: number;
+  time: Date;
+}
+
+export interface UserStats {
+  bottles: number;
+  comments: number;
+  /** 用户捞瓶子的次数 */
+  picks: number;
+  /** 用户的瓶子被捞的次数 */
+  picked: number;
+  /** 用户的瓶子收到的评论数 */
+  commented: number;
+  /** 用户的瓶子收到的点赞数 */
+  liked: number;
+}
+
+export interface DailyStats {
+  day: number;
+  bottles: number;
+  comments: number;
+  views: number;
+}
+
+export interface GlobalStats {
+  bottles: number;
+  comments: number;
+  picks: number;
+  views: number;
+  reactions: number;
+  daily: DailyStats[];
+  topBottles: { id: number, name: string, pickCount: number }[];
+  topChannels: { channelId: string, count: number }[];
+}
+
+export class Statistics {
+  constructor(private ctx: Context) {
+    ctx.model.extend('bottle_view', {
+      id: 'unsigned',
+      bid: 'unsigned',
+      source: {
+        type: 'string',
+        length: 16,
+      },
+      platform: 'string',
+      channelId: 'string',
+      uid: 'string',
+      day: 'unsigned',
+      time: 'timestamp',
+    }, {primary: "id", autoInc: true});
+  }
+
+  async record(bid: number, source: ViewSource, target: { platform: string, channelId: string, uid?: string }) {
+    await this.ctx.database.create("bottle_view", {
+      bid,
+      source,
+      platform: target.platform,
+      channelId: target.channelId,
+      uid: target.uid ?? "",
+      day: Time.getDateNumber(),
+      time: new Date(),
+    })
+  }
+
+  async user(platform: string, uid: string): Promise<UserStats> {
+    const owned = this.ctx.database.select("bottle").where({ uid, status: "approved" })
+    const comments = await this.ctx.database
+      .select("comment")
+      .where({ uid, status: "approved", deleted: 0 })
+      .execute((row) => $.count(row.id))
+    const picks = await this.ctx.database
+      .select("bottle_pick")
+      .where({ platform, uid })
+      .execute((row) => $.count(row.id))
+    return {
+      bottles: await owned.execute((row) => $.count(row.id)),
+      comments,
+      picks,
+      picked: await owned.execute((row) => $.sum(row.pickCount)) ?? 0,
+      commented: await owned.execute((row) => $.sum(row.commentCount)) ?? 0,
+      liked: await owned.execute((row) => $.sum(row.likeCount)) ?? 0,
+    }
+  }
+
+  /** 全局统计，days 为每日活跃和最活跃频道统计的天数 */
+  async global(days = 7, limit = 5): Promise<GlobalStats> {
+    const today = Time.getDateNumber()
+    const since = today - days + 1
+    const daily = new Map<number, DailyStats>()
+    for (let day = since; day <= today; day++) daily.set(day, { day, bottles: 0, comments: 0, views: 0 })
+    const channels = new Map<string, number>()
+    const addChannel = (channelId: string, count: number) => {
+      if (channelId) channels.set(channelId, (channels.get(channelId) ?? 0) + count)
+    }
+
+    for (const table of ["bottle", "comment"] as const) {
+      const query = table === "bottle" ? { status: "approved" as const, time: { $gte: since } } : { status: "approved" as const, deleted: 0, time: { $gte: since } }
+      const byDay = await this.ctx.database.select(table, query).groupBy("time", { count: (row) => $.count(row.id) }).execute()
+      for (const row of byDay) {
+        // 时钟偏差或导入的存档可能产生统计范围之后的日期
+        const day = daily.get(row.time)
+        if (!day) continue
+        day[`${table}s`] = row.count
+      }
+      const byChannel = await this.ctx.database.select(table, query).groupBy("cnid", { count: (row) => $.count(row.id) }).execute()
+      for (const row of byChannel) addChannel(row.cnid, row.count)
+    }
+    const views = await this.ctx.database.select("bottle_view", { day: { $gte: since } }).groupBy("day", { count: (row) => $.count(row.id) }).execute()
+    for (const row of views) {
+      const day = daily.get(row.day)
+      if (!day) continue
+      day.views = row.count
+    }
+    // 随机发送不是频道成员的操作，不计入频道的活跃度
+    const picksByChannel = await this.ctx.database
+      .select("bottle_view", { day: { $gte: since }, source: { $ne: "random" } })
+      .groupBy("channelId", { count: (row) => $.count(row.id) })
+      .execute()
+    for (const row of picksByChannel) addChannel(row.channelId, row.count)
+
+    const topBottles = await this.ctx.database
+      .select("bottle", { status: "approved", hidden: 0, pickCount: { $gt: 0 } })
+      .orderBy("pickCount", "desc")
+      .limit(limit)
+      .project(["id", "name", "pickCount"])
+      .execute()
+
+    return {
+      bottles: await this.ctx.database.select("bottle", { status: "approved" }).execute((row) => $.count(row.id)),
+      comments: await this.ctx.database.select("comment", { status: "approved", deleted: 0 }).execute((row) => $.count(row.id)),
+      picks: await this.ctx.database.select("bottle_pick").execute((row) => $.count(row.id)),
+      views: await this.ctx.database.select("bottle_view").execute((row) => $.count(row.id)),
+      reactions: await this.ctx.database.select("bottle_reaction").execute((row) => $.count(row.uid)),
+      daily: [...daily.values()],
+      topBottles,
+      topChannels: [...channels]
+        .map(([channelId, count]) => ({ channelId, count }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, limit),
+    }
+  }
+}
@@ -0,0 +1,148 @@
+import { Context, Schema } from 'koishi'
+import { pathToFileURL } from "url"
+import { resolve } from 'path'
+import { createHash, createHmac } from 'crypto'
+import { readFileSync, unlinkSync, writeFileSync } from 'fs'
+import {} from "@koishijs/assets"
+
+export type StorageMode = 'file' | 's3' | 'assets'
+
+export interface S3Config {
+  endpoint: string
+  region: string
+  bucket: string
+  accessKeyId: string
+  secretAccessKey: string
+  pathStyle: boolean
+  publicUrl?: string
+}
+
+export interface StorageConfig {
+  s3: S3Config
+}
+
+export const StorageConfig: Schema<StorageConfig> = Schema.object({
+  s3: Schema.object({
+    endpoint: Schema.string().description("S3 兼容服务的地址，如 https://s3.amazonaws.com 或 http://127.0.0.1:9000"),
+    region: Schema.string().default("us-east-1").description("区域"),
+    bucket: Schema.string().description("储存桶名称"),
+    accessKeyId: Schema.string().description("Access Key ID"),
+    secretAccessKey: Schema.string().role("secret").description("Secret Access Key"),
+    pathStyle: Schema.boolean().default(true).description("使用路径形式的地址（MinIO 等自建服务通常需要开启）"),
+    publicUrl: Schema.string().description("发送消息时使用的公开访问地址（留空则使用储存桶地址，储存桶需要允许公开读取）"),
+  }).description("S3 储存（储存方式为 s3 时生效）"),
+})
+
+/** 静态资源储存后端，file 为文件名，url 为 put 返回的链接 */
+export interface StorageBackend {
+  /** 写入文件，返回发送消息时使用的链接 */
+  put(file: string, buffer: Buffer, mimeType: string): Promise<string>
+  get(file: string, url: string): Promise<Buffer>
+  delete(file: string, url: string): Promise<void>
+}
+
+export class LocalStorage implements StorageBackend {
+  constructor(private root: string) {}
+
+  async put(file: string, buffer: Buffer) {
+    writeFileSync(resolve(this.root, file), buffer)
+    return pathToFileURL(resolve(this.root, file)).href
+  }
+
+  async get(file: string) {
+    return readFileSync(resolve(this.root, file))
+  }
+
+  async delete(file: string) {
+    try {
+      unlinkSync(resolve(this.root, file))
+    } catch (e) {
+      if (e.code !== "ENOENT") throw e
+    }
+  }
+}
+
+const sha256 = (data: string | Buffer) => createHash("sha256").update(data).digest("hex")
+const hmac = (key: string | Buffer, data: string) => createHmac("sha256", key).update(data).digest()
+
+export class S3Storage implements StorageBackend {
+  constructor(private ctx: Context, private config: S3Config) {}
+
+  async put(file: string, buffer: Buffer, mimeType: string) {
+    await this.request("PUT", file, buffer, { "content-type": mimeType })
+    return this.config.publicUrl
+      ? `${this.config.publicUrl.replace(/\/+$/, "")}/${encodeURIComponent(file)}`
+      : this.url(file).href
+  }
+
+  async get(file: string) {
+    return Buffer.from(await this.request("GET", file))
+  }
+
+  async delete(file: string) {
+    await this.request("DELETE", file)
+  }
+
+  private url(file: string) {
+    let endpoint = new URL(this.config.endpoint)
+    if (this.config.pathStyle) {
+      return new URL(`${endpoint.pathname.replace(/\/+$/, "")}/${this.config.bucket}/${encodeURIComponent(file)}`, endpoint)
+    }
+    return new URL(`${endpoint.protocol}//${this.config.bucket}.${endpoint.host}/${encodeURIComponent(file)}`)
+  }
+
+  /** 发送经过 AWS Signature Version 4 签名的请求 */
+  private async request(method: "GET" | "PUT" | "DELETE", file: string, body?: Buffer, extra: Record<string, string> = {}) {
+    let url = this.url(file)
+    let amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "")
+    let date = amzDate.slice(0, 8)
+    let headers: Record<string, string> = {
+      ...extra,
+      host: url.host,
+      "x-amz-content-sha256": sha256(body ?? ""),
+      "x-amz-date": amzDate,
+    }
+    let names = Object.keys(headers).sort()
+    let canonical = [
+      method,
+      url.pathname,
+      "",
+      ...names.map((name) => `${name}:${headers[name]}`),
+      "",
+      names.join(";"),
+      headers["x-amz-content-sha256"],
+    ].join("\n")
+    let scope = `${date}/${this.config.region}/s3/aws4_request`
+    let stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256(canonical)].join("\n")
+    let key = hmac(hmac(hmac(hmac(`AWS4${this.config.secretAccessKey}`, date), this.config.region), "s3"), "aws4_request")
+    let signature = createHmac("sha256", key).update(stringToSign).digest("hex")
+    delete headers.host
+    headers.authorization = `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${names.join(";")}, Signature=${signature}`
+
+    let response = await this.ctx.http(url.href, {
+      method,
+      headers,
+      data: body,
+      responseType: "arraybuffer",
+    })
+    return response.data
+  }
+}
+
+export class AssetsStorage implements StorageBackend {
+  constructor(private ctx: Context) {}
+
+  async put(file: string, buffer: Buffer, mimeType: string) {
+    if (!this.ctx.assets) throw new Error("assets 服务未启用")
+    return await this.ctx.assets.upload(`data:${mimeType};base64,${buffer.toString("base64")}`, file)
+  }
+
+  async get(file: string, url: string) {
+    return Buffer.from(await this.ctx.http.get(url, { responseType: "arraybuffer" }))
+  }
+
+  async delete(file: string) {
+    // assets 服务没有提供删除接口，只能由对应的 assets 插件自行清理
+    this.ctx.logger("re-driftbottle").debug(`assets 服务不支持删除文件，已跳过：${file}`)
+  }
+}
@@ -0,0 +1,87 @@
+import { App } from 'koishi'
+import { expect } from 'chai'
+import { writeFileSync } from 'fs'
+import { join } from 'path'
+import { archiveVersion } from '../src'
+import { createApp } from './shared'
+
+describe("archive", () => {
+  let app: App
+
+  beforeEach(async () => {
+    app = await createApp()
+  })
+
+  afterEach(async () => {
+    await app.stop()
+  })
+
+  function write(name: string, data: unknown) {
+    const path = join(app.baseDir, name)
+    writeFileSync(path, JSON.stringify(data))
+    return path
+  }
+
+  it("imports the legacy bottle and comment layout", async () => {
+    const path = write("legacy.json", {
+      bottle: [
+        { id: 7, uid: 10001, username: "张三", content: "今天天气真好", time: 19000 },
+        { id: 9, uid: "10002", content: "没有用户名" },
+        "不是对象的行会被忽略",
+      ],
+      comment: [
+        { bid: 7, cid: 1, uid: 10002, username: "李四", content: "是啊" },
+        { bid: 7, cid: 2, uid: 10001, username: "张三", content: "回复 1. 李四：“出去玩吧”" },
+      ],
+    })
+    const result = await app.driftbottle.archive.import(path)
+    expect(result).to.deep.include({ bottles: 2, comments: 2, failed: [] })
+
+    const bottles = await app.database.get("bottle", {}, { sort: { id: "asc" } })
+    expect(bottles.map((bottle) => [bottle.uid, bottle.username, bottle.content, bottle.commentCount])).to.deep.equal([
+      ["10001", "张三", "今天天气真好", 2],
+      ["10002", "", "没有用户名", 0],
+    ])
+    expect(bottles[0].time).to.equal(19000)
+
+    const comments = await app.database.get("comment", { bid: bottles[0].id }, { sort: { cid: "asc" } })
+    expect(comments.map((comment) => [comment.cid, comment.parentCid, comment.uid, comment.content])).to.deep.equal([
+      [1, 0, "10002", "“是啊”"],
+      [2, 1, "10001", "“出去玩吧”"],
+    ])
+
+    const search = await app.driftbottle.search({ keyword: "出去玩", comments: true })
+    expect(search.results.map((item) => [item.bottle.id, item.comment?.cid])).to.deep.equal([[bottles[0].id, 2]])
+  })
+
+  it("rejects unknown formats and newer archive versions", async () => {
+    for (const [name, data, message] of [
+      ["array.json", [], "无法识别的存档格式"],
+      ["object.json", { bottles: [] }, "无法识别的存档格式"],
+      ["newer.json", { format: "re-driftbottle", version: archiveVersion + 1, bottles: [], comments: [], media: [] }, "不支持的存档版本"],
+      ["partial.json", { format: "re-driftbottle", version: archiveVersion }, "存档内容不完整"],
+    ] as const) {
+      let error: Error
+      await app.driftbottle.archive.import(write(name, data)).catch((e) => error = e)
+      expect(error?.message, name).to.include(message)
+    }
+  })
+
+  it("restores an exported archive in replace mode", async () => {
+    const bottle = await app.driftbottle.drop({ uid: "1", username: "张三", content: "带标签的瓶子", tags: ["提问"] })
+    await app.driftbottle.comment(bottle.id, { uid: "2", username: "李四", content: "第一条评论" })
+    await app.driftbottle.comment(bottle.id, { uid: "1", username: "张三", content: "回复", replyId: 1 })
+    const exported = await app.driftbottle.archive.export()
+    expect(exported).to.deep.include({ bottles: 1, comments: 2 })
+
+    const result = await app.driftbottle.archive.import(exported.path, "replace")
+    expect(result).to.deep.include({ bottles: 1, comments: 2, failed: [] })
+    const bottles = await app.database.get("bottle", {})
+    expect(bottles).to.have.length(1)
+    expect(bottles[0].id).to.not.equal(bottle.id)
+    expect(bottles[0].commentCount).to.equal(2)
+    expect(await app.driftbottle.getTags(bottles[0].id)).to.deep.equal(["提问"])
+    const comments = await app.database.get("comment", { bid: bottles[0].id }, { sort: { cid: "asc" } })
+    expect(comments.map((comment) => [comment.cid, comment.parentCid])).to.deep.equal([[1, 0], [2, 1]])
+  })
+})
@@ -0,0 +1,30 @@
+import { App } from 'koishi'
+import { expect } from 'chai'
+import { mkdtempSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import * as help from '@koishijs/plugin-help'
+import memory from '@koishijs/plugin-database-memory'
+import notifier from '@koishijs/plugin-notifier'
+import * as driftbottle from '../src'
+
+describe("commands", () => {
+  let app: App
+
+  after(async () => {
+    await app?.stop()
+  })
+
+  it("registers every command alongside the help plugin", async () => {
+    app = new App()
+    app.plugin(help)
+    app.plugin(memory)
+    app.plugin(notifier)
+    app.plugin(driftbottle, driftbottle.Config({ randomSend: false, path: mkdtempSync(join(tmpdir(), "re-driftbottle-")) } as driftbottle.Config))
+    await app.start()
+    // 选项和 help 插件的 -h 冲突时，之后的指令都不会被注册
+    for (const name of ["漂流瓶.搜索", "漂流瓶.统计", "漂流瓶.审核列表", "漂流瓶.随机发送"]) {
+      expect(app.$commander.get(name), name).to.exist
+    }
+  })
+})
@@ -0,0 +1,71 @@
+import { App, HTTP } from 'koishi'
+import { expect } from 'chai'
+import { DriftBottleError } from '../src'
+import { createApp } from './shared'
+
+describe("delivery", () => {
+  let app: App
+
+  beforeEach(async () => {
+    app = await createApp({ maxRetry: 3, retryInterval: 10, retryBackoff: 2, maxRetryInterval: 30 })
+  })
+
+  afterEach(async () => {
+    await app.stop()
+  })
+
+  function httpError(status: number) {
+    const error = new HTTP.Error(`请求失败：${status}`)
+    error.response = { status } as HTTP.Response
+    return error
+  }
+
+  it("classifies plugin errors and client errors as permanent", () => {
+    const { delivery } = app.driftbottle
+    expect(delivery.classify(new DriftBottleError('no-bottles', "没有瓶子了！"))).to.equal("abort")
+    expect(delivery.classify(httpError(403))).to.equal("abort")
+    expect(delivery.classify(httpError(408))).to.equal("retry")
+    expect(delivery.classify(httpError(429))).to.equal("retry")
+    expect(delivery.classify(httpError(502))).to.equal("retry")
+    expect(delivery.classify(new Error("网络错误"))).to.equal("retry")
+    expect(delivery.classify("不是错误对象")).to.equal("retry")
+  })
+
+  it("backs off exponentially up to the maximum interval", () => {
+    const { delivery } = app.driftbottle
+    expect([1, 2, 3, 4].map((retry) => delivery.delay(retry))).to.deep.equal([10, 20, 30, 30])
+  })
+
+  it("retries transient errors until the task succeeds", async () => {
+    const retries: number[] = []
+    const result = await app.driftbottle.delivery.run("测试", async (retry) => {
+      retries.push(retry)
+      if (retry < 2) throw new Error("网络错误")
+      return "成功"
+    })
+    expect(result).to.equal("成功")
+    expect(retries).to.deep.equal([0, 1, 2])
+  })
+
+  it("gives up after maxRetry retries and rethrows the last error", async () => {
+    let attempts = 0
+    let error: Error
+    await app.driftbottle.delivery.run("测试", async (retry) => {
+      attempts++
+      throw new Error(`第${retry}次失败`)
+    }).catch((e) => error = e)
+    expect(attempts).to.equal(4)
+    expect(error.message).to.equal("第3次失败")
+  })
+
+  it("does not retry permanent errors", async () => {
+    let attempts = 0
+    let error: Error
+    await app.driftbottle.delivery.run("测试", async () => {
+      attempts++
+      throw httpError(404)
+    }).catch((e) => error = e)
+    expect(attempts).to.equal(1)
+    expect(error).to.be.instanceOf(HTTP.Error)
+  })
+})
@@ -0,0 +1,91 @@
+import { App } from 'koishi'
+import { expect } from 'chai'
+import { Config } from '../src'
+import { bottleRow as bottle, commentRow as comment, createApp as startApp } from './shared'
+
+/** 启动时的迁移完成后把数据版本重置为 0，由测试重新执行所有迁移 */
+async function createApp(config: Partial<Config> = {}) {
+  const app = await startApp(config)
+  await app.driftbottle.migrator.setMeta("version", "0")
+  return app
+}
+
+describe("migrations", () => {
+  let app: App
+
+  afterEach(async () => {
+    await app?.stop()
+  })
+
+  it("brings the data version up to date and is idempotent", async () => {
+    app = await createApp()
+    const { migrator } = app.driftbottle
+    await migrator.run()
+    const status = await migrator.status()
+    expect(status.version).to.equal(status.latest)
+    expect(status.pending).to.be.empty
+    await migrator.run()
+    expect(await migrator.version()).to.equal(status.latest)
+  })
+
+  it("recounts legacy bottles with commentCount -1", async () => {
+    app = await createApp()
+    const { database } = app
+    await database.upsert("bottle", [bottle(1), bottle(2)])
+    await database.create("comment", comment(1, 1, "“好耶”"))
+    await database.create("comment", comment(1, 2, "“不错”"))
+    await app.driftbottle.migrator.run()
+    const [first, second] = await database.get("bottle", {}, { sort: { id: "asc" } })
+    expect(first.commentCount).to.equal(2)
+    expect(second.commentCount).to.equal(0)
+  })
+
+  it("converts legacy reply prefixes into threaded replies", async () => {
+    app = await createApp()
+    const { database } = app
+    await database.upsert("bottle", [bottle(1)])
+    await database.create("comment", comment(1, 1, "“第一条”"))
+    await database.create("comment", comment(1, 2, "回复 1. 李四：“第二条”"))
+    await database.create("comment", comment(1, 3, "回复 不是编号：“保持原样”"))
+    await app.driftbottle.migrator.run()
+    const comments = await database.get("comment", { bid: 1 }, { sort: { cid: "asc" } })
+    expect(comments.map((row) => [row.parentCid, row.content])).to.deep.equal([
+      [0, "“第一条”"],
+      [1, "“第二条”"],
+      [0, "回复 不是编号：“保持原样”"],
+    ])
+  })
+
+  it("processes more rows than a single batch", async () => {
+    app = await createApp()
+    await app.database.upsert("bottle", Array.from({ length: 450 }, (_, index) => bottle(index + 1)))
+    await app.driftbottle.migrator.run()
+    expect(await app.database.get("bottle", { commentCount: -1 })).to.be.empty
+  })
+
+  it("builds the search index for existing bottles and comments", async () => {
+    app = await createApp()
+    await app.database.upsert("bottle", [bottle(1, { content: "今天天气真好", commentCount: 0 })])
+    await app.database.create("comment", comment(1, 1, "“明天也会是晴天”"))
+    await app.driftbottle.migrator.run()
+    const bottles = await app.driftbottle.search({ keyword: "天气" })
+    expect(bottles.results.map((result) => result.bottle.id)).to.deep.equal([1])
+    const comments = await app.driftbottle.search({ keyword: "晴天", comments: true })
+    expect(comments.results.map((result) => [result.bottle.id, result.comment?.cid])).to.deep.equal([[1, 1]])
+  })
+
+  it("imports legacy random-send guilds while keeping unlisted platforms on every guild", async () => {
+    app = await createApp({ randomSend: true, minInterval: 60, maxInterval: 120, guildId: { onebot: "123, 456", discord: "" } })
+    await app.driftbottle.migrator.run()
+    const rows = await app.database.get("bottle_channel", {})
+    expect(rows.map((row) => [row.platform, row.channelId, row.enabled]).sort()).to.deep.equal([
+      ["discord", "", 0],
+      ["onebot", "", 0],
+      ["onebot", "123", 1],
+      ["onebot", "456", 1],
+    ])
+    expect(await app.driftbottle.scheduler.getMode("onebot")).to.equal("opt-in")
+    expect(await app.driftbottle.scheduler.getMode("discord")).to.equal("opt-in")
+    expect(await app.driftbottle.scheduler.getMode("telegram")).to.equal("opt-out")
+  })
+})
@@ -0,0 +1,120 @@
+import { App } from 'koishi'
+import { expect } from 'chai'
+import { TestBot, createApp, createBot, stopApp, waitFor } from './shared'
+
+describe("notifications", () => {
+  let app: App
+  let onebot: TestBot
+  let discord: TestBot
+
+  beforeEach(async () => {
+    app = await createApp()
+    onebot = createBot(app, "onebot")
+    discord = createBot(app, "discord")
+  })
+
+  afterEach(async () => {
+    await stopApp(app)
+  })
+
+  async function settled() {
+    await waitFor(async () => (await app.database.get("bottle_notification", { status: "pending" })).length === 0)
+    return app.database.get("bottle_notification", {}, { sort: { id: "asc" } })
+  }
+
+  it("keys settings by platform and user", async () => {
+    const { notifications } = app.driftbottle
+    await notifications.setMode("onebot", "1", "mute")
+    await notifications.setMode("discord", "1", "private")
+    expect(await notifications.getMode("onebot", "1")).to.equal("mute")
+    expect(await notifications.getMode("discord", "1")).to.equal("private")
+    expect(await notifications.getMode("telegram", "1")).to.equal("channel")
+    // 没有平台时无法确定是哪一条设置
+    expect(await notifications.getMode("", "1")).to.equal("channel")
+    await notifications.setMode("onebot", "2", "private")
+    expect(await notifications.getMode("", "2")).to.equal("private")
+  })
+
+  it("delivers through the bots of the author's platform", async () => {
+    const { notifications } = app.driftbottle
+    await notifications.setMode("onebot", "1", "mute")
+    await notifications.push({ platform: "onebot", uid: "1", cnid: "100" }, "comment", "静音")
+    await notifications.push({ platform: "discord", uid: "1", cnid: "200" }, "comment", "有新评论")
+    const rows = await settled()
+    expect(rows.map((row) => [row.platform, row.status])).to.deep.equal([["discord", "sent"]])
+    expect(onebot.messages).to.be.empty
+    expect(discord.messages).to.have.length(1)
+    expect(discord.messages[0].channelId).to.equal("200")
+    expect(discord.messages[0].content).to.include("有新评论")
+  })
+
+  it("falls back to a private message when the channel cannot be reached", async () => {
+    discord.fail.add("200")
+    await app.driftbottle.notifications.push({ platform: "discord", uid: "1", cnid: "200" }, "comment", "有新评论")
+    expect((await settled())[0].status).to.equal("sent")
+    expect(discord.messages.map((message) => message.channelId)).to.deep.equal(["private:1"])
+  })
+
+  it("fails at once when no bot can reach the user", async () => {
+    const start = Date.now()
+    await app.driftbottle.notifications.push({ platform: "telegram", uid: "1" }, "comment", "有新评论")
+    expect((await settled())[0].status).to.equal("failed")
+    // 不可重试的错误不会等待重试间隔
+    expect(Date.now() - start).to.be.below(app.driftbottle.config.retryInterval)
+  })
+})
+
+describe("digests", () => {
+  let app: App
+  let onebot: TestBot
+
+  beforeEach(async () => {
+    app = await createApp({ notifyEvents: ["comment", "reply", "feature"] })
+    onebot = createBot(app, "onebot")
+  })
+
+  afterEach(async () => {
+    await stopApp(app)
+  })
+
+  it("summarises new comments on the bottles of the setting's platform", async () => {
+    const { driftbottle } = app
+    const own = await driftbottle.drop({ platform: "onebot", uid: "1", username: "张三", content: "今天天气真好" })
+    const other = await driftbottle.drop({ platform: "discord", uid: "1", username: "张三", content: "另一个平台的同名用户" })
+    await driftbottle.comment(own.id, { platform: "onebot", uid: "2", username: "李四", content: "汇总之前的评论" })
+    await driftbottle.notifications.setMode("onebot", "1", "digest")
+    // 开启汇总之前的评论已经单独提醒过了
+    await waitFor(async () => (await app.database.get("bottle_notification", { status: "pending" })).length === 0)
+    onebot.messages = []
+
+    await driftbottle.comment(own.id, { platform: "onebot", uid: "2", username: "李四", content: "是啊" })
+    await driftbottle.comment(own.id, { platform: "onebot", uid: "1", username: "张三", content: "自己的评论不算" })
+    await driftbottle.comment(other.id, { platform: "discord", uid: "2", username: "李四", content: "不会汇总" })
+    await driftbottle.feature(own.id)
+    await driftbottle.notifications.sendDigest(["digest"])
+
+    const privates = onebot.messages.filter((message) => message.channelId === "private:1")
+    expect(privates).to.have.length(1)
+    expect(privates[0].content).to.include(`${own.id}号瓶子：1条新评论`)
+    expect(privates[0].content).to.include("是啊")
+    expect(privates[0].content).to.include("精选")
+    expect(privates[0].content).to.not.include(`${other.id}号瓶子`)
+    expect(await app.database.get("bottle_notification", { status: "digest" })).to.be.empty
+
+    // 已经汇总过的评论不会再次汇总
+    await driftbottle.notifications.sendDigest(["digest"])
+    expect(onebot.messages.filter((message) => message.channelId === "private:1")).to.have.length(1)
+  })
+
+  it("only sends weekly digests when asked for them", async () => {
+    const { driftbottle } = app
+    const bottle = await driftbottle.drop({ platform: "onebot", uid: "1", username: "张三", content: "今天天气真好" })
+    await driftbottle.notifications.setMode("onebot", "1", "weekly")
+    await driftbottle.comment(bottle.id, { platform: "onebot", uid: "2", username: "李四", content: "是啊" })
+    await driftbottle.notifications.sendDigest(["digest"])
+    expect(onebot.messages).to.be.empty
+    await driftbottle.notifications.sendDigest(["digest", "weekly"])
+    expect(onebot.messages.map((message) => message.channelId)).to.deep.equal(["private:1"])
+    expect(onebot.messages[0].content).to.include("本周你的漂流瓶有1条新评论")
+  })
+})
@@ -0,0 +1,53 @@
+import { App, Session } from 'koishi'
+import { expect } from 'chai'
+import { createApp } from './shared'
+
+describe("picking", () => {
+  let app: App
+
+  beforeEach(async () => {
+    app = await createApp()
+  })
+
+  afterEach(async () => {
+    await app.stop()
+  })
+
+  const picker = { platform: "onebot", uid: "2" }
+  const session = { platform: "onebot", userId: "2" } as Session
+
+  it("does not pick the picker's own bottles", async () => {
+    const { driftbottle } = app
+    await driftbottle.drop({ uid: "2", username: "李四", content: "自己的瓶子" })
+    const other = await driftbottle.drop({ uid: "1", username: "张三", content: "别人的瓶子" })
+    for (let i = 0; i < 5; i++) expect((await driftbottle.pick(picker)).id).to.equal(other.id)
+  })
+
+  it("prefers bottles the picker has not seen recently", async () => {
+    const { driftbottle } = app
+    const first = await driftbottle.drop({ uid: "1", username: "张三", content: "第一个瓶子" })
+    const second = await driftbottle.drop({ uid: "1", username: "张三", content: "第二个瓶子" })
+    await driftbottle.markPicked(first, session)
+    for (let i = 0; i < 5; i++) expect((await driftbottle.pick(picker)).id).to.equal(second.id)
+    // 全部都捞到过时仍然可以捞到
+    await driftbottle.markPicked(second, session)
+    expect([first.id, second.id]).to.include((await driftbottle.pick(picker)).id)
+  })
+
+  it("emits the picked event for views without recording a pick", async () => {
+    const { driftbottle } = app
+    const bottle = await driftbottle.drop({ uid: "1", username: "张三", content: "今天天气真好" })
+    const picked: number[] = []
+    app.on("driftbottle/picked", (bottle) => { picked.push(bottle.pickCount) })
+
+    await driftbottle.markPicked(bottle, session, false)
+    expect(picked).to.deep.equal([0])
+    expect(await app.database.get("bottle_pick", {})).to.be.empty
+    expect((await driftbottle.get(bottle.id)).pickCount).to.equal(0)
+
+    await driftbottle.markPicked(bottle, session)
+    expect(picked).to.deep.equal([0, 1])
+    expect(await app.database.get("bottle_pick", {})).to.have.length(1)
+    expect((await driftbottle.get(bottle.id)).pickCount).to.equal(1)
+  })
+})
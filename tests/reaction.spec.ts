@@ -0,0 +1,56 @@
+import { App } from 'koishi'
+import { expect } from 'chai'
+import { createApp } from './shared'
+
+describe("reactions", () => {
+  let app: App
+
+  beforeEach(async () => {
+    app = await createApp()
+  })
+
+  afterEach(async () => {
+    await app.stop()
+  })
+
+  const picker = { platform: "onebot", uid: "2" }
+
+  it("counts only likes towards likeCount and the likes ranking", async () => {
+    const { driftbottle } = app
+    const bottle = await driftbottle.drop({ uid: "1", username: "张三", content: "今天天气真好" })
+    await driftbottle.react(bottle.id, 0, picker, "😡")
+    expect((await driftbottle.get(bottle.id)).likeCount).to.equal(0)
+    expect(await driftbottle.ranking("likes")).to.be.empty
+    expect(await driftbottle.reactions(bottle.id)).to.deep.equal({ "😡": 1 })
+
+    await driftbottle.react(bottle.id, 0, { platform: "onebot", uid: "3" })
+    expect((await driftbottle.get(bottle.id)).likeCount).to.equal(1)
+    expect((await driftbottle.ranking("likes")).map((row) => [row.bottle.id, row.count])).to.deep.equal([[bottle.id, 1]])
+
+    await driftbottle.recount()
+    expect((await driftbottle.get(bottle.id)).likeCount).to.equal(1)
+  })
+
+  it("moves likeCount when switching between a like and an emoji", async () => {
+    const { driftbottle } = app
+    const bottle = await driftbottle.drop({ uid: "1", username: "张三", content: "今天天气真好" })
+    await driftbottle.react(bottle.id, 0, picker)
+    expect((await driftbottle.get(bottle.id)).likeCount).to.equal(1)
+    await driftbottle.react(bottle.id, 0, picker, "🎉")
+    expect((await driftbottle.get(bottle.id)).likeCount).to.equal(0)
+    await driftbottle.react(bottle.id, 0, picker)
+    expect((await driftbottle.get(bottle.id)).likeCount).to.equal(1)
+    expect(await driftbottle.react(bottle.id, 0, picker)).to.be.undefined
+    expect((await driftbottle.get(bottle.id)).likeCount).to.equal(0)
+  })
+
+  it("counts comment likes the same way", async () => {
+    const { driftbottle } = app
+    const bottle = await driftbottle.drop({ uid: "1", username: "张三", content: "今天天气真好" })
+    const comment = await driftbottle.comment(bottle.id, { uid: "1", username: "张三", content: "是啊" })
+    await driftbottle.react(bottle.id, comment.cid, picker, "😡")
+    expect((await driftbottle.getComment(bottle.id, comment.cid)).likeCount).to.equal(0)
+    await driftbottle.react(bottle.id, comment.cid, picker)
+    expect((await driftbottle.getComment(bottle.id, comment.cid)).likeCount).to.equal(1)
+  })
+})
@@ -0,0 +1,84 @@
+import { App } from 'koishi'
+import { expect } from 'chai'
+import { createApp, createBot, stopApp } from './shared'
+
+describe("scheduler", () => {
+  let app: App
+
+  beforeEach(async () => {
+    app = await createApp()
+  })
+
+  afterEach(async () => {
+    await stopApp(app)
+  })
+
+  async function targets() {
+    return (await app.driftbottle.scheduler.targets())
+      .map((target) => [target.platform, target.channelId, target.bots.map((bot) => bot.selfId).join(",")])
+      .sort()
+  }
+
+  it("sends to every guild in opt-out mode except disabled channels", async () => {
+    const { scheduler } = app.driftbottle
+    createBot(app, "onebot", "a", ["1", "2", "3"])
+    createBot(app, "onebot", "b", ["2"])
+    await scheduler.setChannel("onebot", "3", { guildId: "3", enabled: 0 })
+    expect(await targets()).to.deep.equal([
+      ["onebot", "1", "a"],
+      ["onebot", "2", "a,b"],
+    ])
+  })
+
+  it("sends only to enabled channels in opt-in mode", async () => {
+    const { scheduler } = app.driftbottle
+    createBot(app, "onebot", "a", ["1", "2"])
+    createBot(app, "discord", "c", ["10"])
+    await scheduler.setMode("onebot", "opt-in")
+    await scheduler.setChannel("onebot", "2", { guildId: "2", enabled: 1 })
+    // 开启了的频道不需要在机器人的群聊列表中
+    await scheduler.setChannel("onebot", "5", { guildId: "5", enabled: 1 })
+    expect(await targets()).to.deep.equal([
+      ["discord", "10", "c"],
+      ["onebot", "2", "a"],
+      ["onebot", "5", "a"],
+    ])
+  })
+
+  it("uses channel settings instead of the guild when a guild has them", async () => {
+    const { scheduler } = app.driftbottle
+    createBot(app, "discord", "c", ["10"])
+    await scheduler.setChannel("discord", "11", { guildId: "10", enabled: 1 })
+    expect(await targets()).to.deep.equal([["discord", "11", "c"]])
+  })
+
+  it("skips channels in quiet hours or within their interval", async () => {
+    const { scheduler } = app.driftbottle
+    createBot(app, "onebot", "a", ["1", "2", "3"])
+    const hour = new Date().getHours()
+    await scheduler.setChannel("onebot", "1", { guildId: "1", enabled: 1, quietStart: hour, quietEnd: (hour + 1) % 24 })
+    await scheduler.setChannel("onebot", "2", { guildId: "2", enabled: 1, interval: 60, lastSent: new Date() })
+    await scheduler.setChannel("onebot", "3", { guildId: "3", enabled: 1, interval: 60, lastSent: new Date(Date.now() - 61 * 60000) })
+    expect(await targets()).to.deep.equal([["onebot", "3", "a"]])
+  })
+
+  it("sends one bottle per platform and records the send time", async () => {
+    const { driftbottle } = app
+    const onebot = createBot(app, "onebot", "a", ["1"])
+    const discord = createBot(app, "discord", "c", ["10"])
+    expect(await driftbottle.scheduler.tick()).to.equal(0)
+
+    const bottle = await driftbottle.drop({ uid: "1", username: "张三", content: "今天天气真好" })
+    await driftbottle.scheduler.setChannel("onebot", "1", { guildId: "1", enabled: 1, interval: 60 })
+    expect(await driftbottle.scheduler.tick()).to.equal(2)
+    expect(onebot.messages.map((message) => message.channelId)).to.deep.equal(["1"])
+    expect(onebot.messages[0].content).to.include(`${bottle.id}号瓶子漂上了岸`)
+    expect(discord.messages.map((message) => message.channelId)).to.deep.equal(["10"])
+    expect((await driftbottle.scheduler.getChannel("onebot", "1")).lastSent).to.exist
+    // 没有设置的频道不会新建设置
+    expect(await driftbottle.scheduler.getChannel("discord", "10")).to.be.undefined
+
+    expect(await driftbottle.scheduler.tick()).to.equal(1)
+    expect(onebot.messages).to.have.length(1)
+  })
+})
@@ -0,0 +1,72 @@
+import { App } from 'koishi'
+import { expect } from 'chai'
+import { createApp } from './shared'
+
+describe("search", () => {
+  let app: App
+
+  beforeEach(async () => {
+    app = await createApp()
+  })
+
+  afterEach(async () => {
+    await app.stop()
+  })
+
+  async function drop(content: string, uid = "1") {
+    return (await app.driftbottle.drop({ uid, username: "张三", content })).id
+  }
+
+  async function search(keyword: string, query = {}) {
+    const { results } = await app.driftbottle.search({ keyword, ...query })
+    return results.map((result) => result.comment ? [result.bottle.id, result.comment.cid] : result.bottle.id)
+  }
+
+  it("matches substrings at any position through the bigram index", async () => {
+    const weather = await drop("今天天气真好")
+    await drop("天气很好，气真好")
+    const english = await drop("Hello World")
+    expect(await search("天气真")).to.deep.equal([weather])
+    // 每个二元词元都出现过，但原文中没有这个子串
+    expect(await search("天气真好")).to.deep.equal([weather])
+    expect(await search("气好")).to.be.empty
+    expect(await search("hello")).to.deep.equal([english])
+    // 单个字无法使用索引，按原文匹配
+    expect(await search("真")).to.have.members([weather, weather + 1])
+  })
+
+  it("searches comments and the date range", async () => {
+    const { driftbottle } = app
+    const old = await drop("很久以前的天气")
+    const recent = await drop("最近的天气")
+    await app.database.set("bottle", { id: old }, { time: 100 })
+    await app.database.set("bottle", { id: recent }, { time: 200 })
+    await driftbottle.comment(old, { uid: "2", username: "李四", content: "评论里的天气" })
+    await app.database.set("comment", { bid: old }, { time: 200 })
+
+    expect(await search("天气", { since: 150 })).to.deep.equal([recent])
+    expect(await search("天气", { until: 150 })).to.deep.equal([old])
+    expect(await search("天气", { since: 150, comments: true })).to.deep.equal([recent, [old, 1]])
+    expect(await search("评论里", { comments: true })).to.deep.equal([[old, 1]])
+    expect(await search("评论里")).to.be.empty
+  })
+
+  it("excludes hidden and sunk bottles and their comments", async () => {
+    const { driftbottle } = app
+    const visible = await drop("可以看到的天气")
+    const hidden = await drop("被隐藏的天气")
+    const sunk = await drop("沉没的天气")
+    await driftbottle.comment(hidden, { uid: "2", username: "李四", content: "天气评论" })
+    await driftbottle.comment(sunk, { uid: "2", username: "李四", content: "天气评论" })
+    await app.database.set("bottle", { id: hidden }, { hidden: 1 })
+    await app.database.set("bottle", { id: sunk }, { sunk: 1 })
+    expect(await search("天气", { comments: true })).to.deep.equal([visible])
+  })
+
+  it("drops deleted bottles from the index", async () => {
+    const id = await drop("今天天气真好")
+    await app.driftbottle.remove(id)
+    expect(await search("天气")).to.be.empty
+    expect(await app.database.get("bottle_search", { bid: id })).to.be.empty
+  })
+})
@@ -0,0 +1,113 @@
+import { App, Bot, Context, Time, h } from 'koishi'
+import { mkdtempSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import memory from '@koishijs/plugin-database-memory'
+import notifier from '@koishijs/plugin-notifier'
+import { Bottle, Comment, Config, DriftBottle } from '../src'
+
+/** 使用内存数据库启动插件，baseDir 和静态资源目录都在临时目录中 */
+export async function createApp(config: Partial<Config> = {}) {
+  const baseDir = mkdtempSync(join(tmpdir(), "re-driftbottle-"))
+  const app = new App()
+  app.baseDir = baseDir
+  app.plugin(memory)
+  app.plugin(notifier)
+  app.plugin(DriftBottle, Config({ randomSend: false, path: join(baseDir, "media"), ...config } as Config))
+  await app.start()
+  // 等待启动时在后台进行的迁移完成
+  while (app.driftbottle.migrator.running) await new Promise((resolve) => setTimeout(resolve, 10))
+  return app
+}
+
+/** 记录发送的消息的机器人，fail 中的频道发送时会抛出错误，私聊的频道为 private:用户ID */
+export class TestBot extends Bot {
+  messages: { channelId: string, content: string }[] = []
+  fail = new Set<string>()
+
+  constructor(ctx: Context, platform = "onebot", selfId = "bot", public guilds: string[] = []) {
+    super(ctx, {}, platform)
+    this.user = { id: selfId }
+  }
+
+  async sendMessage(channelId: string, content: h.Fragment) {
+    if (this.fail.has(channelId)) throw new Error(`无法发送到 ${channelId}`)
+    this.messages.push({ channelId, content: h.normalize(content).join("") })
+    return [String(this.messages.length)]
+  }
+
+  async sendPrivateMessage(userId: string, content: h.Fragment) {
+    return this.sendMessage("private:" + userId, content)
+  }
+
+  async getGuildList() {
+    return { data: this.guilds.map((id) => ({ id })) }
+  }
+}
+
+/** 在单独的插件中创建机器人，用 stopApp 停止应用时会先移除机器人 */
+export function createBot(app: App, platform?: string, selfId?: string, guilds?: string[]) {
+  let bot: TestBot
+  app.plugin((ctx) => {
+    bot = new TestBot(ctx, platform, selfId, guilds)
+  })
+  return bot
+}
+
+/** 直接停止应用时 satori 服务可能先于机器人被移除，导致机器人移除时报错 */
+export async function stopApp(app: App) {
+  for (const bot of [...app.bots]) await bot.ctx.scope.dispose()
+  await app.stop()
+}
+
+/** 等待后台任务完成，超时后抛出错误 */
+export async function waitFor(check: () => boolean | Promise<boolean>, timeout = 2000) {
+  const deadline = Date.now() + timeout
+  while (!await check()) {
+    if (Date.now() > deadline) throw new Error("等待超时")
+    await new Promise((resolve) => setTimeout(resolve, 10))
+  }
+}
+
+export function bottleRow(id: number, data: Partial<Bottle> = {}): Bottle {
+  return {
+    id,
+    name: "",
+    platform: "",
+    uid: "1",
+    gid: "",
+    cnid: "",
+    username: "张三",
+    content: `第${id}个瓶子`,
+    isHot: 0,
+    commentCount: -1,
+    likeCount: 0,
+    pickCount: 0,
+    score: 0,
+    status: "approved",
+    hidden: 0,
+    sunk: 0,
+    time: Time.getDateNumber(),
+    ...data,
+  }
+}
+
+export function commentRow(bid: number, cid: number, content: string, data: Partial<Comment> = {}): Omit<Comment, 'id'> {
+  return {
+    cid,
+    bid,
+    parentCid: 0,
+    platform: "",
+    uid: "2",
+    gid: "",
+    cnid: "",
+    username: "李四",
+    content,
+    status: "approved",
+    hidden: 0,
+    deleted: 0,
+    likeCount: 0,
+    time: Time.getDateNumber(),
+    ...data,
+  }
+}